@@ -0,0 +1,284 @@
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import session from "express-session";
+import type { Express, Request, Response, NextFunction } from "express";
+import { storage, DuplicateUserError } from "./storage";
+import { hashPassword, verifyPassword } from "./services/passwords";
+import { registerUserSchema, type User as SelectUser, type PublicUser, type UserRole } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+/**
+ * Strip the password hash before a user leaves the server
+ */
+export function toPublicUser(user: SelectUser): PublicUser {
+  const { passwordHash, ...publicUser } = user;
+  return publicUser;
+}
+
+const DUPLICATE_USER_MESSAGES = {
+  username: "Username already taken",
+  email: "Email already registered",
+};
+
+/**
+ * Only allow same-site relative redirects after login (prevents open redirects)
+ */
+function safeRedirectPath(next: unknown): string {
+  if (typeof next === "string" && next.startsWith("/") && !next.startsWith("//")) {
+    return next;
+  }
+  return "/";
+}
+
+/**
+ * Page guard: redirect anonymous visitors to the login page
+ */
+export function requireLoginPage(req: Request, res: Response, next: NextFunction) {
+  if (req.isAuthenticated()) return next();
+  res.redirect(`/login?next=${encodeURIComponent(req.originalUrl)}`);
+}
+
+/**
+ * API guard: reject anonymous requests with a JSON 401
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (req.isAuthenticated()) return next();
+  res.status(401).json({ error: "Authentication required" });
+}
+
+/**
+ * Whether a user holds one of the given roles. Admins hold every role.
+ */
+export function hasRole(user: SelectUser | undefined, ...roles: UserRole[]): boolean {
+  if (!user) return false;
+  return user.role === "admin" || roles.includes(user.role as UserRole);
+}
+
+/**
+ * Whether a user may manage a vendor's listings: admins manage every vendor,
+ * vendor staff only the vendor their account is linked to.
+ */
+export function canManageVendor(user: SelectUser | undefined, vendorId: string): boolean {
+  if (!user) return false;
+  if (user.role === "admin") return true;
+  return user.role === "vendor" && !!user.vendorId && user.vendorId === vendorId;
+}
+
+/**
+ * Whether a user may run a stall's take-a-number queue: admins run every stall,
+ * stall staff (vendor role) only the stall their account is linked to.
+ */
+export function canOperateStall(user: SelectUser | undefined, stallId: string): boolean {
+  if (!user) return false;
+  if (user.role === "admin") return true;
+  return user.role === "vendor" && !!user.stallId && user.stallId === stallId;
+}
+
+/**
+ * API guard: 401 for anonymous requests, 403 unless the user holds one of the roles
+ */
+export function requireRole(...roles: UserRole[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    if (!hasRole(req.user, ...roles)) {
+      return res.status(403).json({ error: "You do not have permission to perform this action" });
+    }
+    next();
+  };
+}
+
+/**
+ * Page guard: redirect anonymous visitors to login, 403 unless the user holds one of the roles
+ */
+export function requireRolePage(...roles: UserRole[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.redirect(`/login?next=${encodeURIComponent(req.originalUrl)}`);
+    }
+    if (!hasRole(req.user, ...roles)) {
+      return res.status(403).send("You do not have permission to view this page");
+    }
+    next();
+  };
+}
+
+/**
+ * API guard: only let users act on their own :param (e.g. /api/users/:userId).
+ * Admins may act on any account.
+ */
+export function requireSelf(param: string) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    if (req.params[param] !== req.user.id && req.user.role !== "admin") {
+      return res.status(403).json({ error: "You can only access your own account" });
+    }
+    next();
+  };
+}
+
+/**
+ * Secret that signs session cookies. The development fallback is public, so production
+ * refuses to start without SESSION_SECRET rather than accept forged sessions.
+ */
+function sessionSecret(app: Express): string {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+  if (app.get("env") === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  return "food-rescue-dev-secret";
+}
+
+export function setupAuth(app: Express) {
+  const sessionSettings: session.SessionOptions = {
+    secret: sessionSecret(app),
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
+    },
+  };
+
+  if (app.get("env") === "production") {
+    app.set("trust proxy", 1);
+  }
+
+  app.use(session(sessionSettings));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await verifyPassword(password, user.passwordHash))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  // Expose the logged-in user to every EJS view (nav, pages)
+  app.use((req, res, next) => {
+    res.locals.currentUser = req.user ? toPublicUser(req.user) : null;
+    next();
+  });
+
+  // ===== AUTH PAGES =====
+
+  app.get("/login", (req, res) => {
+    if (req.isAuthenticated()) {
+      return res.redirect(safeRedirectPath(req.query.next));
+    }
+    res.render("login", {
+      title: "Log In - Food Rescue SG",
+      next: safeRedirectPath(req.query.next),
+      activePage: "login",
+    });
+  });
+
+  // ===== AUTH API ROUTES =====
+
+  // Sign up and start a session
+  app.post("/api/register", async (req, res, next) => {
+    try {
+      const parsed = registerUserSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid registration data" });
+      }
+
+      const { username, email, password, fullName } = parsed.data;
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ error: DUPLICATE_USER_MESSAGES.username });
+      }
+      if (await storage.getUserByEmail(email)) {
+        return res.status(409).json({ error: DUPLICATE_USER_MESSAGES.email });
+      }
+
+      const user = await storage.createUser({
+        username,
+        email,
+        fullName,
+        passwordHash: await hashPassword(password),
+      });
+
+      // Regenerate the session id on sign-up to prevent session fixation
+      req.session.regenerate((regenErr) => {
+        if (regenErr) return next(regenErr);
+        req.login(user, (loginErr) => {
+          if (loginErr) return next(loginErr);
+          res.status(201).json(toPublicUser(user));
+        });
+      });
+    } catch (error) {
+      // A concurrent sign-up took the username or email after the checks above
+      if (error instanceof DuplicateUserError) {
+        return res.status(409).json({ error: DUPLICATE_USER_MESSAGES[error.field] });
+      }
+      console.error("Error registering user:", error);
+      res.status(500).json({ error: "Failed to register user" });
+    }
+  });
+
+  // Log in with username + password
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (err: unknown, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ error: "Invalid username or password" });
+      }
+      // Regenerate the session id on login to prevent session fixation
+      req.session.regenerate((regenErr) => {
+        if (regenErr) return next(regenErr);
+        req.login(user, (loginErr) => {
+          if (loginErr) return next(loginErr);
+          res.json(toPublicUser(user));
+        });
+      });
+    })(req, res, next);
+  });
+
+  // Log out and destroy the session
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.json({ success: true });
+      });
+    });
+  });
+
+  // Current session user
+  app.get("/api/user", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    res.json(toPublicUser(req.user));
+  });
+}
@@ -3,6 +3,13 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { storage } from "./storage";
+import { startListingExpiryJob } from "./services/listing-expiry";
+import { startListingSchedulerJob } from "./services/listing-templates";
+import { startWaitlistOfferJob } from "./services/waitlist";
+import { startQueueHistoryPruneJob } from "./services/queue-history";
+import { startServiceRateJob } from "./services/service-rates";
+import { startQueueTicketExpiryJob } from "./services/queue-tickets";
+import { paymentProvider } from "./services/payments";
 
 
 const app = express();
@@ -50,6 +57,9 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Fail fast on payment settings that would accept forged webhooks
+  paymentProvider();
+
   const server = await registerRoutes(app);
 
   // Seed database with initial data if the storage implementation provides it.
@@ -57,6 +67,19 @@ app.use((req, res, next) => {
     await (storage as any).seedDatabase();
   }
 
+  // Hide rescue listings and mark no-shows once pickup windows close
+  startListingExpiryJob();
+  // Publish vendors' recurring listings on their scheduled days
+  startListingSchedulerJob();
+  // Pass lapsed waitlist offers on to the next user in line
+  startWaitlistOfferJob();
+  // Drop raw queue samples and 5-minute rollups past their retention
+  startQueueHistoryPruneJob();
+  // Re-learn each stall's service rate from recent queue drains
+  startServiceRateJob();
+  // Expire take-a-number tickets left open from earlier days
+  startQueueTicketExpiryJob();
+
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
@@ -1,21 +1,145 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
+import {
+  setupAuth,
+  requireAuth,
+  requireLoginPage,
+  requireRole,
+  requireRolePage,
+  requireSelf,
+  canManageVendor,
+  canOperateStall,
+  toPublicUser,
+} from "./auth";
+import { pickupQrPayload, parsePickupCode } from "./services/pickup-codes";
+import { withCurrentPrice } from "./services/pricing";
+import { searchFoodListings } from "./services/listing-search";
+import { satisfiesDietaryRestrictions } from "./services/dietary";
+import {
+  buildImpactEntry,
+  categoryFactorTable,
+  formatImpactTotals,
+  formatImpactReport,
+} from "./services/impact";
+import { upcomingTemplateDays } from "./services/listing-templates";
+import {
+  CHARITY_CLAIM_WINDOW_MINUTES,
+  charityClaimBlocker,
+  charityClaimableListings,
+} from "./services/charity";
+import {
+  WAITLIST_OFFER_MINUTES,
+  isActiveWaitlistEntry,
+  isSoldOut,
+  waitlistJoinBlocker,
+  waitlistOfferExpiry,
+  waitlistSummary,
+} from "./services/waitlist";
+import { canSimulateQueues, streamQueueUpdates, updateStallQueue } from "./services/queue-updates";
+import { getQueueHistory, queueHistoryRangeError } from "./services/queue-history";
+import { getStallForecast } from "./services/queue-forecast";
+import {
+  isOpenTicket,
+  queueBoard,
+  syncStallQueue,
+  ticketIssueBlocker,
+  ticketView,
+  type TicketView,
+} from "./services/queue-tickets";
+import {
+  receiveCsvUpload,
+  csvUploadErrorMessage,
+  parseListingCsv,
+  listingsToCsv,
+} from "./services/listing-csv";
+import { computeVendorAnalytics, vendorAnalyticsRange, vendorAnalyticsRangeError } from "./services/vendor-analytics";
+import {
+  isVendorOpenAt,
+  isWithinOpeningHours,
+  formatWeeklyHours,
+  weekdaysOutsideHours,
+} from "./services/opening-hours";
+import {
+  PaymentWebhookError,
+  paymentProvider,
+  getPayableSubject,
+  startPayment,
+  handlePaymentWebhook,
+  refundPayment,
+  canSimulatePayments,
+  expireLapsedPayment,
+} from "./services/payments";
+import {
+  ASSETS_DIR,
+  receiveImageUpload,
+  storeUploadedImage,
+  uploadErrorMessage,
+  imageSrc,
+  isImmutableAsset,
+} from "./services/image-uploads";
 import path from "path";
+import {
+  formatSingaporeTime,
+  formatSingaporeDateTime,
+  singaporeDateString,
+  singaporeDateTimeAt,
+  singaporeWeekday,
+  addDaysToDateString,
+} from "@shared/sg-time";
 import {
   insertStallSchema,
   insertFoodListingSchema,
+  updateFoodListingSchema,
   insertVendorSchema,
+  vendorSearchSchema,
+  updateVendorLocationSchema,
+  updateWeeklyHoursSchema,
+  vendorHoursExceptionSchema,
   insertRatingSchema,
   insertUserSchema,
   insertUserPreferencesSchema,
   insertDeliveryRequestSchema,
+  createReservationSchema,
+  charityClaimSchema,
+  MAX_CHARITY_UNIT_PRICE,
+  joinWaitlistSchema,
+  queueHistoryQuerySchema,
+  advanceQueueSchema,
+  redeemPickupSchema,
+  foodListingSearchSchema,
+  vendorAnalyticsQuerySchema,
+  createPaymentSchema,
+  dietListSchema,
+  updateStallDietaryTagsSchema,
+  dietaryTagLabels,
+  dietaryRestrictionLabels,
+  foodCategories,
+  foodCategoryLabels,
+  updateFoodCategoryFactorSchema,
+  type FoodCategory,
+  insertListingTemplateSchema,
+  updateListingTemplateSchema,
+  updateListingTemplateDaySchema,
+  weekdayLabels,
+  updateUserRoleSchema,
+  linkUserVendorSchema,
+  linkUserStallSchema,
 } from "@shared/schema";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Set up EJS as view engine
   app.set("view engine", "ejs");
   app.set("views", path.join(process.cwd(), "views"));
+  // Pickup windows are stored as timestamps; views show them in Singapore time
+  app.locals.formatSgTime = formatSingaporeTime;
+  app.locals.formatSgDateTime = formatSingaporeDateTime;
+  app.locals.dietaryTagLabels = dietaryTagLabels;
+  app.locals.dietaryRestrictionLabels = dietaryRestrictionLabels;
+  app.locals.foodCategoryLabels = foodCategoryLabels;
+  app.locals.weekdayLabels = weekdayLabels;
+  app.locals.formatWeeklyHours = formatWeeklyHours;
+  app.locals.imageSrc = imageSrc;
 
   // Serve static files
   app.use("/public", (req, res, next) => {
@@ -24,13 +148,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
-  // Serve generated images
+  // Serve generated images and uploads. Uploads are content-hashed, so they never go stale
   app.use("/assets", (req, res, next) => {
-    res.sendFile(path.join(process.cwd(), "attached_assets", req.path), (err) => {
+    const immutable = isImmutableAsset(req.path);
+    res.sendFile(req.path, {
+      root: ASSETS_DIR,
+      maxAge: immutable ? "365d" : "1d",
+      immutable,
+    }, (err) => {
       if (err) next();
     });
   });
 
+  // Sessions, passport and the /login, /api/register, /api/login, /api/logout routes
+  setupAuth(app);
+
   // ===== PAGE ROUTES =====
 
   // Home page - redirects to queue monitor
@@ -50,9 +182,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         stalls: stalls.filter(s => s.canteenId === canteen.id),
       }));
 
+      // The signed-in user's open take-a-number tickets for today, by stall
+      const tickets: Record<string, TicketView> = {};
+      if (req.user) {
+        const today = singaporeDateString();
+        for (const ticket of await storage.getQueueTicketsByUser(req.user.id)) {
+          const stall = stalls.find(s => s.id === ticket.stallId);
+          if (!stall || ticket.serviceDate !== today || !isOpenTicket(ticket)) continue;
+          tickets[stall.id] = ticketView(ticket, await storage.getQueueTicketsByStall(stall.id, today), stall);
+        }
+      }
+
       res.render("queue-monitor", {
         title: "Queue Monitor - Food Rescue SG",
         canteens: canteenData,
+        tickets,
+        simulateQueues: canSimulateQueues(),
         activePage: "queue",
       });
     } catch (error) {
@@ -64,31 +209,80 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Food Rescue Marketplace
   app.get("/food-rescue", async (req, res) => {
     try {
-      const listings = await storage.getAllFoodListings(true);
+      // Sold-out listings stay on the marketplace until pickup ends so users can join their waitlists
+      const listings = (await storage.getAllFoodListings()).filter(l => l.available || isSoldOut(l));
       const vendors = await storage.getAllVendors();
-      
-      // Enrich listings with vendor data
-      const enrichedListings = listings.map(listing => ({
-        ...listing,
-        vendor: vendors.find(v => v.id === listing.vendorId),
-      }));
+      const blocks = await storage.getAllCampusBlocks();
 
-      // Calculate impact statistics
-      const totalSaved = listings.reduce((sum, l) => 
-        sum + (parseFloat(l.originalPrice) - parseFloat(l.discountedPrice)) * l.quantity, 0
-      );
-      const mealsRescued = listings.reduce((sum, l) => sum + l.quantity, 0);
-      const co2Reduced = mealsRescued * 2.5; // Assuming 2.5kg CO2 per meal
+      // Search, filter and sort server-side; bad params fall back to the default view.
+      // Distances are measured from the user's campus block unless another is picked
+      const query = withCurrentBlock(req.query, req.user);
+      const parsed = foodListingSearchSchema.safeParse(query);
+      const search = parsed.success ? parsed.data : foodListingSearchSchema.parse(withCurrentBlock({}, req.user));
+      const block = blocks.find(b => b.id === search.blockId);
+      const hoursExceptions = await storage.getVendorHoursExceptions();
+      const results = searchFoodListings(listings, vendors, { ...search, pageSize: 12 }, block, hoursExceptions);
+      const pageListings = [];
+      for (const listing of results.listings) {
+        const waitlist = listing.quantity === 0
+          ? waitlistSummary(await storage.getWaitlistByListing(listing.id), req.user?.id)
+          : undefined;
+        pageListings.push({ ...listing, waitlist });
+      }
+
+      // Impact statistics come from the ledger of collected reservations (same as GET /api/impact)
+      const stats = formatImpactTotals(await storage.getImpactTotals());
+      const userImpact = req.user ? formatImpactTotals(await storage.getImpactTotals({ userId: req.user.id })) : null;
+
+      // Pickups the logged-in customer still has to collect
+      const activeReservations = [];
+      if (req.user) {
+        const reservations = await storage.getReservationsByUser(req.user.id);
+        for (const reservation of reservations.filter(r => r.status === "reserved")) {
+          const listing = await storage.getFoodListing(reservation.listingId);
+          const [payment] = await storage.getPaymentsBySubject("reservation", reservation.id);
+          activeReservations.push({
+            ...reservation,
+            qrPayload: pickupQrPayload(reservation),
+            listing,
+            vendor: vendors.find(v => v.id === listing?.vendorId),
+            payment,
+          });
+        }
+      }
+
+      // Waitlists the user is still on, with any portions currently held for them first
+      const waitlist = [];
+      if (req.user) {
+        const entries = (await storage.getWaitlistEntriesByUser(req.user.id)).filter(isActiveWaitlistEntry);
+        for (const entry of entries) {
+          const listing = await storage.getFoodListing(entry.listingId);
+          const { position } = waitlistSummary(await storage.getWaitlistByListing(entry.listingId), req.user.id);
+          waitlist.push({ ...entry, position, listing, vendor: vendors.find(v => v.id === listing?.vendorId) });
+        }
+        waitlist.sort((a, b) => Number(b.status === "offered") - Number(a.status === "offered"));
+      }
+
+      // Verified charities also see what they can bulk-claim right now
+      const charityListings = req.user?.role === "charity"
+        ? charityClaimableListings(listings).map(l => ({ ...l, vendor: vendors.find(v => v.id === l.vendorId) }))
+        : [];
 
       res.render("food-rescue", {
         title: "Food Rescue SG - Save Food, Save Money, Save Tomorrow",
-        listings: enrichedListings,
+        listings: pageListings,
+        pagination: results,
+        search: parsed.success ? query : withCurrentBlock({}, req.user),
+        blocks,
         vendors,
-        stats: {
-          totalSaved: totalSaved.toFixed(2),
-          mealsRescued,
-          co2Reduced: co2Reduced.toFixed(1),
-        },
+        reservations: activeReservations,
+        waitlist,
+        waitlistOfferMinutes: WAITLIST_OFFER_MINUTES,
+        charityListings,
+        charityClaimWindowMinutes: CHARITY_CLAIM_WINDOW_MINUTES,
+        canSimulatePayments: canSimulatePayments(),
+        stats,
+        userImpact,
         activePage: "rescue",
       });
     } catch (error) {
@@ -100,10 +294,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Vendor Portal
   app.get("/vendor-portal", async (req, res) => {
     try {
-      const vendors = await storage.getAllVendors();
+      const user = req.user;
+      const isAdmin = user?.role === "admin";
+
+      // Vendor staff only see the business their account is linked to
+      const linkedVendor = user?.role === "vendor" && user.vendorId
+        ? await storage.getVendor(user.vendorId)
+        : undefined;
+      const vendors = isAdmin ? await storage.getAllVendors() : [];
+      const listings = linkedVendor
+        ? (await storage.getFoodListingsByVendor(linkedVendor.id)).map(l => withCurrentPrice(l))
+        : [];
+      const impact = linkedVendor
+        ? formatImpactReport(
+            await storage.getImpactTotals({ vendorId: linkedVendor.id }),
+            await storage.getImpactByCategory({ vendorId: linkedVendor.id }),
+          )
+        : null;
+      const templates = [];
+      for (const template of linkedVendor ? await storage.getListingTemplatesByVendor(linkedVendor.id) : []) {
+        const days = await storage.getListingTemplateDays(template.id, singaporeDateString());
+        templates.push({ ...template, schedule: upcomingTemplateDays(template, days) });
+      }
+      // An invalid ?from=&to= falls back to the default range rather than failing the page
+      const analyticsQuery = vendorAnalyticsQuerySchema.safeParse(req.query);
+      const requestedRange = analyticsQuery.success ? vendorAnalyticsRange(analyticsQuery.data) : undefined;
+      const analyticsRange = requestedRange && !vendorAnalyticsRangeError(requestedRange)
+        ? requestedRange
+        : vendorAnalyticsRange({});
+      const analytics = linkedVendor ? await getVendorAnalytics(linkedVendor.id, analyticsRange) : null;
+
       res.render("vendor-portal", {
         title: "Vendor Portal - Food Rescue SG",
         vendors,
+        vendor: linkedVendor,
+        listings,
+        impact,
+        templates,
+        analytics,
+        charityClaimWindowMinutes: CHARITY_CLAIM_WINDOW_MINUTES,
+        maxCharityUnitPrice: MAX_CHARITY_UNIT_PRICE,
+        canPostListings: isAdmin || !!linkedVendor,
         activePage: "vendor",
       });
     } catch (error) {
@@ -113,25 +344,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Smart Recommendations
-  app.get("/recommendations", async (req, res) => {
+  app.get("/recommendations", requireLoginPage, async (req, res) => {
     try {
       const blocks = await storage.getAllCampusBlocks();
+      const user = req.user!;
       
-      // For demo purposes, create or get a test user
-      let testUser = await storage.getUserByUsername("demo_user");
-      if (!testUser) {
-        testUser = await storage.createUser({
-          username: "demo_user",
-          email: "demo@foodrescue.sg",
-          passwordHash: "demo_hash",
-          fullName: "Demo User",
-          currentBlockId: blocks[0]?.id || null,
-          deliveryAvailable: false,
-        });
-        
-        // Create default preferences
-        await storage.createUserPreferences({
-          userId: testUser.id,
+      // Create default preferences on first visit
+      let userPrefs = await storage.getUserPreferences(user.id);
+      if (!userPrefs) {
+        userPrefs = await storage.createUserPreferences({
+          userId: user.id,
           cuisineTypes: ["Chinese", "Western", "Japanese"],
           dietaryRestrictions: [],
           maxQueueTime: 30,
@@ -141,12 +363,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      const userPrefs = await storage.getUserPreferences(testUser.id);
-      const currentBlock = testUser.currentBlockId ? await storage.getCampusBlock(testUser.currentBlockId) : null;
+      const currentBlock = user.currentBlockId ? await storage.getCampusBlock(user.currentBlockId) : null;
       
       res.render("recommendations", {
         title: "Smart Recommendations - Food Rescue SG",
-        user: testUser,
+        user: toPublicUser(user),
         preferences: userPrefs,
         currentBlock,
         blocks,
@@ -159,26 +380,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Order Food with Delivery
-  app.get("/order-food", async (req, res) => {
+  app.get("/order-food", requireLoginPage, async (req, res) => {
     try {
       const stalls = await storage.getAllStalls();
       const canteens = await storage.getAllCanteens();
       const blocks = await storage.getAllCampusBlocks();
+      const user = req.user!;
       
-      // Get demo user
-      let testUser = await storage.getUserByUsername("demo_user");
-      if (!testUser) {
-        testUser = await storage.createUser({
-          username: "demo_user",
-          email: "demo@foodrescue.sg",
-          passwordHash: "demo_hash",
-          fullName: "Demo User",
-          currentBlockId: blocks[0]?.id || null,
-          deliveryAvailable: false,
-        });
-      }
-      
-      const currentBlock = testUser.currentBlockId ? await storage.getCampusBlock(testUser.currentBlockId) : null;
+      const currentBlock = user.currentBlockId ? await storage.getCampusBlock(user.currentBlockId) : null;
       
       // Check if it's peak hour (11:30-13:30 or 17:30-19:30 Singapore time)
       const now = new Date();
@@ -197,7 +406,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         stalls,
         canteens,
         campusBlocks: blocks,
-        user: testUser,
+        user: toPublicUser(user),
         currentBlock,
         isPeakHour,
         activePage: "order",
@@ -209,27 +418,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Delivery Hub
-  app.get("/delivery-hub", async (req, res) => {
+  app.get("/delivery-hub", requireLoginPage, async (req, res) => {
     try {
       const blocks = await storage.getAllCampusBlocks();
-      
-      // Get demo user
-      let testUser = await storage.getUserByUsername("demo_user");
-      if (!testUser) {
-        testUser = await storage.createUser({
-          username: "demo_user",
-          email: "demo@foodrescue.sg",
-          passwordHash: "demo_hash",
-          fullName: "Demo User",
-          currentBlockId: blocks[0]?.id || null,
-          deliveryAvailable: false,
-          isDeliveryPerson: false,
-        });
-      }
+      const user = req.user!;
       
       // Get pending delivery requests (only if user is online)
       let pendingRequests: any[] = [];
-      if (testUser.isDeliveryPerson && testUser.deliveryAvailable) {
+      if (user.isDeliveryPerson && user.deliveryAvailable) {
         const rawRequests = await storage.getPendingDeliveryRequests();
         const stalls = await storage.getAllStalls();
         const canteens = await storage.getAllCanteens();
@@ -248,8 +444,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Get user's active deliveries
       let myDeliveries: any[] = [];
-      if (testUser.isDeliveryPerson) {
-        const rawDeliveries = await storage.getDeliveryRequestsByDeliveryPerson(testUser.id);
+      if (user.isDeliveryPerson) {
+        const rawDeliveries = await storage.getDeliveryRequestsByDeliveryPerson(user.id);
         const stalls = await storage.getAllStalls();
         const canteens = await storage.getAllCanteens();
         
@@ -270,17 +466,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Get earnings data
       let earningsHistory: any[] = [];
       let totalEarnings = 0;
-      if (testUser.isDeliveryPerson) {
-        earningsHistory = await storage.getDeliveryPersonEarnings(testUser.id);
-        totalEarnings = await storage.getTotalEarnings(testUser.id);
+      if (user.isDeliveryPerson) {
+        earningsHistory = await storage.getDeliveryPersonEarnings(user.id);
+        totalEarnings = await storage.getTotalEarnings(user.id);
       }
       
       // Get vouchers
-      const vouchers = await storage.getUserVouchers(testUser.id, false);
+      const vouchers = await storage.getUserVouchers(user.id, false);
       
       res.render("delivery-hub", {
         title: "Delivery Hub - Food Rescue SG",
-        user: testUser,
+        user: toPublicUser(user),
         campusBlocks: blocks,
         pendingRequests,
         pendingCount: pendingRequests.length,
@@ -297,20 +493,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Admin Dashboard
-  app.get("/admin", async (req, res) => {
+  app.get("/admin", requireRolePage("admin"), async (req, res) => {
     try {
       const canteens = await storage.getAllCanteens();
       const stalls = await storage.getAllStalls();
       const vendors = await storage.getAllVendors();
+      const hoursExceptions = await storage.getVendorHoursExceptions(undefined, singaporeDateString());
       const listings = await storage.getAllFoodListings();
       const ratings = await storage.getAllRatings();
+      const users = await storage.getAllUsers();
+      const categoryFactors = categoryFactorTable(await storage.getFoodCategoryFactors());
+      const impact = formatImpactReport(await storage.getImpactTotals(), await storage.getImpactByCategory());
 
       res.render("admin", {
         title: "Admin Dashboard - Food Rescue SG",
         canteens,
         stalls,
         vendors,
+        hoursExceptions,
         listings,
+        users: users.map(toPublicUser),
+        categoryFactors,
+        impact,
         stats: {
           totalCanteens: canteens.length,
           totalStalls: stalls.length,
@@ -340,13 +544,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get user by ID
-  app.get("/api/users/:userId", async (req, res) => {
+  app.get("/api/users/:userId", requireSelf("userId"), async (req, res) => {
     try {
       const user = await storage.getUser(req.params.userId);
       if (!user) {
         return res.status(404).json({ error: "User not found" });
       }
-      res.json(user);
+      res.json(toPublicUser(user));
     } catch (error) {
       console.error("Error fetching user:", error);
       res.status(500).json({ error: "Failed to fetch user" });
@@ -354,7 +558,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get smart recommendations for a user
-  app.get("/api/recommendations/:userId", async (req, res) => {
+  app.get("/api/recommendations/:userId", requireSelf("userId"), async (req, res) => {
     try {
       const { calculateRecommendations } = await import("./services/recommendations");
       
@@ -389,18 +593,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update user location
-  app.patch("/api/users/:userId/location", async (req, res) => {
+  app.patch("/api/users/:userId/location", requireSelf("userId"), async (req, res) => {
     try {
       const { blockId } = req.body;
       const user = await storage.updateUserLocation(req.params.userId, blockId);
-      res.json(user);
+      res.json(user ? toPublicUser(user) : user);
     } catch (error) {
       res.status(500).json({ error: "Failed to update location" });
     }
   });
 
   // Update user preferences
-  app.patch("/api/users/:userId/preferences", async (req, res) => {
+  app.patch("/api/users/:userId/preferences", requireSelf("userId"), async (req, res) => {
     try {
       const validatedData = insertUserPreferencesSchema.partial().parse(req.body);
       const preferences = await storage.updateUserPreferences(
@@ -414,13 +618,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create delivery request (order food with delivery)
-  app.post("/api/delivery-requests", async (req, res) => {
+  app.post("/api/delivery-requests", requireAuth, async (req, res) => {
     try {
-      // Get demo user for customer ID
-      const demoUser = await storage.getUserByUsername("demo_user");
-      if (!demoUser) {
-        return res.status(400).json({ error: "User not found" });
-      }
+      const customer = req.user!;
 
       // SERVER-SIDE PRICING CALCULATION & VALIDATION (SECURITY)
       // Parse and validate food total
@@ -487,7 +687,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Note: Client also sends their calculated total, but we ignore it for security
 
       const validatedData = insertDeliveryRequestSchema.parse({
-        customerId: demoUser.id,
+        customerId: customer.id,
         stallId: requestData.stallId,
         foodItems, // Sanitized
         totalAmount: foodTotal.toFixed(2), // Food total only, validated
@@ -507,7 +707,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get pending delivery requests (for delivery persons)
-  app.get("/api/delivery-requests/pending", async (req, res) => {
+  app.get("/api/delivery-requests/pending", requireRole("courier"), async (req, res) => {
     try {
       const requests = await storage.getPendingDeliveryRequests();
       res.json(requests);
@@ -517,7 +717,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get customer's delivery requests
-  app.get("/api/delivery-requests/customer/:customerId", async (req, res) => {
+  app.get("/api/delivery-requests/customer/:customerId", requireSelf("customerId"), async (req, res) => {
     try {
       const requests = await storage.getDeliveryRequestsByCustomer(req.params.customerId);
       res.json(requests);
@@ -527,15 +727,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Accept a delivery request (for delivery person)
-  app.patch("/api/delivery-requests/:id/accept", async (req, res) => {
+  app.patch("/api/delivery-requests/:id/accept", requireRole("courier"), async (req, res) => {
     try {
       const { id } = req.params;
-      
-      // Get demo user (will be replaced with actual auth later)
-      const user = await storage.getUserByUsername("demo_user");
-      if (!user) {
-        return res.status(401).json({ error: "User not found" });
-      }
+      const user = req.user!;
       
       if (!user.isDeliveryPerson) {
         return res.status(403).json({ error: "User is not registered as a delivery person" });
@@ -556,7 +751,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update delivery request status
-  app.patch("/api/delivery-requests/:id/status", async (req, res) => {
+  app.patch("/api/delivery-requests/:id/status", requireRole("courier"), async (req, res) => {
     try {
       const { id } = req.params;
       const { status } = req.body;
@@ -568,6 +763,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Invalid status value" });
       }
       
+      const request = await storage.getDeliveryRequest(id);
+      if (!request) {
+        return res.status(404).json({ error: "Delivery request not found" });
+      }
+      if (req.user!.role !== "admin" && request.deliveryPersonId !== req.user!.id) {
+        return res.status(403).json({ error: "You can only update deliveries assigned to you" });
+      }
+      
       console.log(`[Status Update] Updating request ${id} to status: ${status}`);
       
       // Update the status
@@ -616,24 +819,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Register as delivery person
-  app.post("/api/users/register-delivery-person", async (req, res) => {
+  app.post("/api/users/register-delivery-person", requireAuth, async (req, res) => {
     try {
       const { phoneNumber, currentBlockId } = req.body;
-      
-      // Get demo user
-      const user = await storage.getUserByUsername("demo_user");
-      if (!user) {
-        return res.status(404).json({ error: "User not found" });
-      }
+      const user = req.user!;
       
       // Register user as delivery person
-      const updatedUser = await storage.registerAsDeliveryPerson(user.id, phoneNumber, currentBlockId);
+      let updatedUser = await storage.registerAsDeliveryPerson(user.id, phoneNumber, currentBlockId);
       
       if (!updatedUser) {
         return res.status(500).json({ error: "Failed to update user" });
       }
       
-      res.json({ success: true, message: "Registered as delivery person", user: updatedUser });
+      // Customers become couriers; vendors and admins keep their existing role
+      if (updatedUser.role === "customer") {
+        updatedUser = await storage.updateUserRole(user.id, "courier") ?? updatedUser;
+      }
+      
+      res.json({ success: true, message: "Registered as delivery person", user: toPublicUser(updatedUser) });
     } catch (error) {
       console.error("Error registering delivery person:", error);
       res.status(500).json({ error: "Failed to register as delivery person" });
@@ -641,250 +844,1528 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Toggle delivery availability
-  app.post("/api/users/toggle-availability", async (req, res) => {
+  app.post("/api/users/toggle-availability", requireRole("courier"), async (req, res) => {
     try {
       const { available } = req.body;
-      
-      // Get demo user
-      const user = await storage.getUserByUsername("demo_user");
-      if (!user) {
-        return res.status(404).json({ error: "User not found" });
-      }
+      const user = req.user!;
       
       const updatedUser = await storage.toggleDeliveryAvailability(user.id, available);
-      res.json(updatedUser);
+      res.json(updatedUser ? toPublicUser(updatedUser) : updatedUser);
     } catch (error) {
       console.error("Error toggling availability:", error);
       res.status(500).json({ error: "Failed to toggle availability" });
     }
   });
 
-  // Accept delivery request
-  app.patch("/api/delivery-requests/:id/accept", async (req, res) => {
+  // Get all stalls for a canteen (optionally only those matching ?diet=halal,nut_free)
+  app.get("/api/canteens/:id/stalls", async (req, res) => {
     try {
-      // Get demo user as delivery person
-      const user = await storage.getUserByUsername("demo_user");
-      if (!user) {
-        return res.status(404).json({ error: "User not found" });
+      const diet = req.query.diet ? dietListSchema.safeParse(req.query.diet) : undefined;
+      if (diet && !diet.success) {
+        return res.status(400).json({ error: "Invalid dietary filter" });
       }
-      
-      if (!user.isDeliveryPerson) {
-        return res.status(403).json({ error: "User is not a delivery person" });
+
+      const stalls = await storage.getStallsByCanteen(req.params.id);
+      res.json(diet ? stalls.filter(s => satisfiesDietaryRestrictions(s.dietaryTags, diet.data)) : stalls);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch stalls" });
+    }
+  });
+
+  // Update a stall's dietary tags
+  app.patch("/api/stalls/:id/dietary-tags", requireRole("admin"), async (req, res) => {
+    try {
+      const parsed = updateStallDietaryTagsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid dietary tags" });
       }
-      
-      const request = await storage.acceptDeliveryRequest(req.params.id, user.id);
-      
-      if (!request) {
-        return res.status(404).json({ error: "Delivery request not found" });
+
+      const stall = await storage.updateStallDietaryTags(req.params.id, parsed.data.dietaryTags);
+      if (!stall) {
+        return res.status(404).json({ error: "Stall not found" });
       }
-      
-      res.json(request);
+      res.json(stall);
     } catch (error) {
-      console.error("Error accepting delivery request:", error);
-      res.status(500).json({ error: "Failed to accept delivery request" });
+      res.status(500).json({ error: "Failed to update dietary tags" });
     }
   });
 
-  // Update delivery status
-  app.patch("/api/delivery-requests/:id/status", async (req, res) => {
+  // Live queue changes as Server-Sent Events (used by the queue monitor)
+  app.get("/api/stalls/stream", async (req, res) => {
     try {
-      const { status } = req.body;
-      const request = await storage.updateDeliveryStatus(req.params.id, status);
-      res.json(request);
+      await streamQueueUpdates(req, res);
     } catch (error) {
-      res.status(500).json({ error: "Failed to update delivery status" });
+      console.error("Error streaming queue updates:", error);
+      if (res.headersSent) {
+        res.end();
+      } else {
+        res.status(500).json({ error: "Failed to stream queue updates" });
+      }
     }
   });
 
-  // Get all stalls for a canteen
-  app.get("/api/canteens/:id/stalls", async (req, res) => {
+  // A stall's queue over time: raw samples or 5-minute/hourly/daily averages and peaks.
+  // ?from and ?to accept ISO or Singapore wall-clock times (default: today so far)
+  app.get("/api/stalls/:id/queue-history", async (req, res) => {
     try {
-      const stalls = await storage.getStallsByCanteen(req.params.id);
-      res.json(stalls);
+      const parsed = queueHistoryQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message ?? "Invalid history query" });
+      }
+      const stall = await storage.getStall(req.params.id);
+      if (!stall) {
+        return res.status(404).json({ error: "Stall not found" });
+      }
+
+      const { resolution } = parsed.data;
+      const to = parsed.data.to ?? new Date();
+      const from = parsed.data.from ?? singaporeDateTimeAt(singaporeDateString(to), "00:00");
+      if (from > to) {
+        return res.status(400).json({ error: "from must be on or before to" });
+      }
+      const rangeError = queueHistoryRangeError(from, to, resolution);
+      if (rangeError) {
+        return res.status(400).json({ error: rangeError });
+      }
+
+      const points = await getQueueHistory(stall.id, from, to, resolution);
+      res.json({ stallId: stall.id, resolution, from, to, points });
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch stalls" });
+      console.error("Error fetching queue history:", error);
+      res.status(500).json({ error: "Failed to fetch queue history" });
     }
   });
 
-  // Update stall queue
-  app.post("/api/stalls/:id/queue", async (req, res) => {
+  // Expected wait over the next 2 hours in 15-minute buckets, from the stall's usual
+  // pattern for this weekday and time of day, plus the best time to go
+  app.get("/api/stalls/:id/forecast", async (req, res) => {
     try {
-      const { queueNumber, waitTime } = req.body;
-      const stall = await storage.updateStallQueue(
-        req.params.id,
-        parseInt(queueNumber),
-        parseInt(waitTime)
-      );
-      res.json(stall);
+      const stall = await storage.getStall(req.params.id);
+      if (!stall) {
+        return res.status(404).json({ error: "Stall not found" });
+      }
+      res.json(await getStallForecast(stall));
     } catch (error) {
-      res.status(500).json({ error: "Failed to update queue" });
+      console.error("Error forecasting queue:", error);
+      res.status(500).json({ error: "Failed to forecast queue" });
     }
   });
 
-  // Create food listing
-  app.post("/api/food-listings", async (req, res) => {
+  // A stall's take-a-number board for today: the number being served, last issued and how many wait
+  app.get("/api/stalls/:id/tickets", async (req, res) => {
     try {
-      const validatedData = insertFoodListingSchema.parse(req.body);
-      const listing = await storage.createFoodListing(validatedData);
-      res.json(listing);
+      const stall = await storage.getStall(req.params.id);
+      if (!stall) {
+        return res.status(404).json({ error: "Stall not found" });
+      }
+      const today = singaporeDateString();
+      res.json(queueBoard(stall.id, today, await storage.getQueueTicketsByStall(stall.id, today)));
     } catch (error) {
-      res.status(400).json({ error: "Invalid food listing data" });
+      res.status(500).json({ error: "Failed to fetch queue board" });
     }
   });
 
-  // Get all food listings
-  app.get("/api/food-listings", async (req, res) => {
+  // Take a number; the ticket joins the stall's queue and comes back with its ETA
+  app.post("/api/stalls/:id/tickets", requireAuth, async (req, res) => {
     try {
-      const availableOnly = req.query.available === "true";
-      const listings = await storage.getAllFoodListings(availableOnly);
-      res.json(listings);
+      const stall = await storage.getStall(req.params.id);
+      if (!stall) {
+        return res.status(404).json({ error: "Stall not found" });
+      }
+      const today = singaporeDateString();
+      const blocker = ticketIssueBlocker(await storage.getQueueTicketsByStall(stall.id, today), req.user!.id);
+      if (blocker) {
+        return res.status(409).json({ error: blocker });
+      }
+
+      const ticket = await storage.issueQueueTicket(stall.id, req.user!.id, today);
+      const updated = (await syncStallQueue(stall.id, today)) ?? stall;
+      res.status(201).json(ticketView(ticket, await storage.getQueueTicketsByStall(stall.id, today), updated));
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch listings" });
+      console.error("Error issuing queue ticket:", error);
+      res.status(500).json({ error: "Failed to issue ticket" });
     }
   });
 
-  // Update food listing availability
-  app.patch("/api/food-listings/:id/availability", async (req, res) => {
+  // Stall staff: close the ticket being served (as served, or skipped for a no-show) and call the next
+  app.post("/api/stalls/:id/tickets/advance", requireRole("vendor"), async (req, res) => {
     try {
-      const { available } = req.body;
-      const listing = await storage.updateFoodListingAvailability(
-        req.params.id,
-        available
-      );
-      res.json(listing);
+      const parsed = advanceQueueSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message ?? "Invalid outcome" });
+      }
+      const stall = await storage.getStall(req.params.id);
+      if (!stall) {
+        return res.status(404).json({ error: "Stall not found" });
+      }
+      if (!canOperateStall(req.user, stall.id)) {
+        return res.status(403).json({ error: "You can only run your own stall's queue" });
+      }
+
+      const today = singaporeDateString();
+      const result = await storage.advanceQueueTickets(stall.id, today, parsed.data.outcome, new Date());
+      if (!result.closed && !result.called) {
+        return res.status(409).json({ error: "No tickets are waiting" });
+      }
+      await syncStallQueue(stall.id, today);
+      res.json({ ...result, board: queueBoard(stall.id, today, await storage.getQueueTicketsByStall(stall.id, today)) });
     } catch (error) {
-      res.status(500).json({ error: "Failed to update availability" });
+      console.error("Error advancing queue:", error);
+      res.status(500).json({ error: "Failed to advance queue" });
     }
   });
 
-  // Create vendor
-  app.post("/api/vendors", async (req, res) => {
+  // Give up a ticket (waiting, or called but not yet served)
+  app.delete("/api/tickets/:id", requireAuth, async (req, res) => {
     try {
-      const validatedData = insertVendorSchema.parse(req.body);
-      const vendor = await storage.createVendor(validatedData);
-      res.json(vendor);
+      const ticket = await storage.getQueueTicket(req.params.id);
+      if (!ticket) {
+        return res.status(404).json({ error: "Ticket not found" });
+      }
+      if (ticket.userId !== req.user!.id) {
+        return res.status(403).json({ error: "You can only cancel your own tickets" });
+      }
+
+      const cancelled = await storage.cancelQueueTicket(ticket.id, new Date());
+      if (!cancelled) {
+        return res.status(409).json({ error: "This ticket is no longer in the queue" });
+      }
+      await syncStallQueue(cancelled.stallId, cancelled.serviceDate);
+      res.json(cancelled);
     } catch (error) {
-      res.status(400).json({ error: "Invalid vendor data" });
+      console.error("Error cancelling ticket:", error);
+      res.status(500).json({ error: "Failed to cancel ticket" });
     }
   });
 
-  // Submit rating
-  app.post("/api/ratings", async (req, res) => {
+  // Update stall queue; without a waitTime it's derived from the stall's service rate
+  app.post("/api/stalls/:id/queue", requireRole("admin"), async (req, res) => {
     try {
-      const validatedData = insertRatingSchema.parse(req.body);
-      const rating = await storage.createRating(validatedData);
-      res.json(rating);
+      const { queueNumber, waitTime } = req.body;
+      const stall = await updateStallQueue(
+        req.params.id,
+        parseInt(queueNumber),
+        waitTime === undefined || waitTime === "" ? undefined : parseInt(waitTime)
+      );
+      res.json(stall);
     } catch (error) {
-      res.status(400).json({ error: "Invalid rating data" });
+      res.status(500).json({ error: "Failed to update queue" });
     }
   });
 
-  // Get ratings for an entity
-  app.get("/api/ratings/:entityType/:entityId", async (req, res) => {
+  // Create food listing
+  app.post("/api/food-listings", requireRole("vendor"), async (req, res) => {
     try {
-      const ratings = await storage.getRatingsByEntity(
-        req.params.entityType,
-        req.params.entityId
-      );
-      res.json(ratings);
+      const user = req.user!;
+      const owner = await postingVendor(user, req.body.vendorId);
+      if ("error" in owner) {
+        return res.status(owner.status).json({ error: owner.error });
+      }
+      const { vendorId } = owner;
+      if (!canManageVendor(user, vendorId)) {
+        return res.status(403).json({ error: "You can only post listings for your own business" });
+      }
+
+      const validatedData = insertFoodListingSchema.parse({ ...req.body, vendorId });
+      const windowError = validatePickupWindow(validatedData.pickupTimeStart, validatedData.pickupTimeEnd)
+        ?? await validateOpeningHours(validatedData.vendorId, validatedData.pickupTimeStart, validatedData.pickupTimeEnd);
+      if (windowError) {
+        return res.status(400).json({ error: windowError });
+      }
+
+      const listing = await storage.createFoodListing(validatedData);
+      res.json(listing);
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch ratings" });
+      res.status(400).json({ error: "Invalid food listing data" });
     }
   });
 
-  // Simulate real-time queue updates
-  app.post("/api/simulate-queue-update", async (req, res) => {
+  // Edit a food listing
+  app.patch("/api/food-listings/:id", requireRole("vendor"), async (req, res) => {
     try {
-      const stalls = await storage.getAllStalls();
-      // Randomly update some stalls
-      for (const stall of stalls) {
-        if (Math.random() > 0.7) {
-          const change = Math.floor(Math.random() * 5) - 2; // -2 to +2
-          const newQueue = Math.max(0, stall.currentQueue + change);
-          const newWait = Math.ceil(newQueue * 2.5);
-          await storage.updateStallQueue(stall.id, newQueue, newWait);
+      const existing = await storage.getFoodListing(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Food listing not found" });
+      }
+      if (!canManageVendor(req.user, existing.vendorId)) {
+        return res.status(403).json({ error: "You can only edit your own listings" });
+      }
+
+      const parsed = updateFoodListingSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid food listing data" });
+      }
+
+      if (parsed.data.pickupTimeStart || parsed.data.pickupTimeEnd) {
+        const start = parsed.data.pickupTimeStart ?? existing.pickupTimeStart;
+        const end = parsed.data.pickupTimeEnd ?? existing.pickupTimeEnd;
+        const windowError = validatePickupWindow(start, end) ?? await validateOpeningHours(existing.vendorId, start, end);
+        if (windowError) {
+          return res.status(400).json({ error: windowError });
         }
       }
-      res.json({ success: true });
+
+      const listing = await storage.updateFoodListing(existing.id, parsed.data);
+      res.json(listing);
     } catch (error) {
-      res.status(500).json({ error: "Failed to simulate update" });
+      console.error("Error updating food listing:", error);
+      res.status(500).json({ error: "Failed to update food listing" });
     }
   });
 
-  // ===== ADMIN API ROUTES =====
-
-  // Get all canteens
-  app.get("/api/canteens", async (req, res) => {
+  // Upload a listing photo (multipart field "image"); the returned imageUrl goes into the listing
+  app.post("/api/images", requireRole("vendor"), async (req, res) => {
     try {
-      const canteens = await storage.getAllCanteens();
-      res.json(canteens);
+      const file = await receiveImageUpload(req, res);
+      if (!file) {
+        return res.status(400).json({ error: "Image file is required" });
+      }
+
+      const image = await storeUploadedImage(file.buffer);
+      res.status(201).json(image);
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch canteens" });
+      const message = uploadErrorMessage(error);
+      if (message) {
+        return res.status(400).json({ error: message });
+      }
+      console.error("Error uploading image:", error);
+      res.status(500).json({ error: "Failed to upload image" });
     }
   });
 
-  // Create canteen
-  app.post("/api/canteens", async (req, res) => {
+  // Search food listings (text, vendor type, price, discount, pickup window, distance, open now/at; sorted and paginated).
+  // Distance is from ?blockId=, defaulting to the logged-in user's current block
+  app.get("/api/food-listings", async (req, res) => {
     try {
-      const { name, location } = req.body;
-      const canteen = await storage.createCanteen({ name, location });
-      res.json(canteen);
+      const parsed = foodListingSearchSchema.safeParse(withCurrentBlock(req.query, req.user));
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message || "Invalid search parameters" });
+      }
+
+      const block = parsed.data.blockId ? await storage.getCampusBlock(parsed.data.blockId) : undefined;
+      if (parsed.data.blockId && !block) {
+        return res.status(400).json({ error: "Unknown campus block" });
+      }
+
+      const listings = await storage.getAllFoodListings(parsed.data.available === true);
+      const vendors = await storage.getAllVendors();
+      const hoursExceptions = await storage.getVendorHoursExceptions();
+      res.json(searchFoodListings(listings, vendors, parsed.data, block, hoursExceptions));
     } catch (error) {
-      res.status(400).json({ error: "Invalid canteen data" });
+      res.status(500).json({ error: "Failed to fetch listings" });
     }
   });
 
-  // Delete canteen
-  app.delete("/api/canteens/:id", async (req, res) => {
+  // Reserve portions of a food listing
+  app.post("/api/food-listings/:id/reservations", requireAuth, async (req, res) => {
     try {
-      await storage.deleteCanteen(req.params.id);
-      res.json({ success: true });
+      const parsed = createReservationSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid quantity" });
+      }
+
+      const existing = await storage.getFoodListing(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Food listing not found" });
+      }
+      // The expiry job runs every minute; don't sell portions in the gap
+      if (existing.pickupTimeEnd.getTime() <= Date.now()) {
+        return res.status(409).json({ error: "The pickup window for this listing has closed" });
+      }
+
+      const result = await storage.reserveListing(existing.id, req.user!.id, parsed.data.quantity);
+      if (!result) {
+        return res.status(409).json({ error: "Not enough portions left for this listing" });
+      }
+
+      res.status(201).json({ ...result, qrPayload: pickupQrPayload(result.reservation) });
     } catch (error) {
-      res.status(500).json({ error: "Failed to delete canteen" });
+      console.error("Error reserving listing:", error);
+      res.status(500).json({ error: "Failed to reserve listing" });
     }
   });
 
-  // Create stall
-  app.post("/api/stalls", async (req, res) => {
+  // Join a sold-out listing's waitlist; freed portions are offered to users in the order they joined
+  app.post("/api/food-listings/:id/waitlist", requireAuth, async (req, res) => {
     try {
-      const validatedData = insertStallSchema.parse(req.body);
-      const stall = await storage.createStall(validatedData);
-      res.json(stall);
+      const parsed = joinWaitlistSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid quantity" });
+      }
+
+      const listing = await storage.getFoodListing(req.params.id);
+      if (!listing) {
+        return res.status(404).json({ error: "Food listing not found" });
+      }
+      const entries = await storage.getWaitlistByListing(listing.id);
+      const blocker = waitlistJoinBlocker(listing, entries, req.user!.id);
+      if (blocker) {
+        return res.status(409).json({ error: blocker });
+      }
+
+      const entry = await storage.joinWaitlist(listing.id, req.user!.id, parsed.data.quantity);
+      const { position } = waitlistSummary([...entries, entry], req.user!.id);
+      res.status(201).json({ ...entry, position });
     } catch (error) {
-      res.status(400).json({ error: "Invalid stall data" });
+      console.error("Error joining waitlist:", error);
+      res.status(500).json({ error: "Failed to join waitlist" });
     }
   });
 
-  // Delete stall
-  app.delete("/api/stalls/:id", async (req, res) => {
+  // Claim the portions held for you; they become a normal reservation at the current price
+  app.post("/api/waitlist/:id/claim", requireAuth, async (req, res) => {
     try {
-      await storage.deleteStall(req.params.id);
-      res.json({ success: true });
+      const entry = await storage.getWaitlistEntry(req.params.id);
+      if (!entry) {
+        return res.status(404).json({ error: "Waitlist entry not found" });
+      }
+      if (entry.userId !== req.user!.id) {
+        return res.status(403).json({ error: "You can only claim your own offers" });
+      }
+
+      const result = await storage.claimWaitlistOffer(entry.id, new Date());
+      if (!result) {
+        return res.status(409).json({ error: "There is no open offer to claim; it may have expired" });
+      }
+
+      res.status(201).json({ ...result, qrPayload: pickupQrPayload(result.reservation) });
     } catch (error) {
-      res.status(500).json({ error: "Failed to delete stall" });
+      console.error("Error claiming waitlist offer:", error);
+      res.status(500).json({ error: "Failed to claim offer" });
     }
   });
 
-  // Delete vendor
-  app.delete("/api/vendors/:id", async (req, res) => {
+  // Leave a waitlist (or decline an offer, passing the portions to the next user)
+  app.delete("/api/waitlist/:id", requireAuth, async (req, res) => {
     try {
-      await storage.deleteVendor(req.params.id);
-      res.json({ success: true });
+      const entry = await storage.getWaitlistEntry(req.params.id);
+      if (!entry) {
+        return res.status(404).json({ error: "Waitlist entry not found" });
+      }
+      if (entry.userId !== req.user!.id) {
+        return res.status(403).json({ error: "You can only leave your own waitlist entries" });
+      }
+
+      const left = await storage.leaveWaitlist(entry.id, waitlistOfferExpiry());
+      if (!left) {
+        return res.status(409).json({ error: "You're no longer on this waitlist" });
+      }
+      res.json(left);
     } catch (error) {
-      res.status(500).json({ error: "Failed to delete vendor" });
+      console.error("Error leaving waitlist:", error);
+      res.status(500).json({ error: "Failed to leave waitlist" });
     }
   });
 
-  // Delete food listing
-  app.delete("/api/food-listings/:id", async (req, res) => {
+  // Listings a verified charity can bulk-claim now: opted in, with portions left, near the end of pickup
+  app.get("/api/charity/listings", requireRole("charity"), async (req, res) => {
     try {
-      await storage.deleteFoodListing(req.params.id);
-      res.json({ success: true });
+      const listings = await storage.getAllFoodListings(true);
+      const vendors = await storage.getAllVendors();
+      res.json(charityClaimableListings(listings).map(l => ({ ...l, vendor: vendors.find(v => v.id === l.vendorId) })));
     } catch (error) {
-      res.status(500).json({ error: "Failed to delete food listing" });
+      res.status(500).json({ error: "Failed to fetch listings" });
+    }
+  });
+
+  // Bulk-claim everything left on one or more listings for a charity. Each claim becomes a
+  // reservation at the listing's charity price plus a donation record; listings that can't be
+  // claimed are reported in `failed` without stopping the others.
+  app.post("/api/charity/claims", requireRole("charity"), async (req, res) => {
+    try {
+      const parsed = charityClaimSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Choose at least one listing" });
+      }
+
+      const claims = [];
+      const failed = [];
+      for (const listingId of Array.from(new Set(parsed.data.listingIds))) {
+        const listing = await storage.getFoodListing(listingId);
+        const blocker = listing ? charityClaimBlocker(listing) : "Food listing not found";
+        if (blocker) {
+          failed.push({ listingId, error: blocker });
+          continue;
+        }
+
+        const claim = await storage.claimListingForCharity(listingId, req.user!.id);
+        if (!claim) {
+          failed.push({ listingId, error: "Nothing is left on this listing" });
+          continue;
+        }
+        claims.push({ ...claim, qrPayload: pickupQrPayload(claim.reservation) });
+      }
+
+      if (claims.length === 0) {
+        return res.status(409).json({ error: "None of the listings could be claimed", failed });
+      }
+      res.status(201).json({ claims, failed });
+    } catch (error) {
+      console.error("Error claiming listings for charity:", error);
+      res.status(500).json({ error: "Failed to claim listings" });
+    }
+  });
+
+  // Donation log: a charity's own claims, a vendor's donated listings, or everything for admins (?vendorId= to narrow)
+  app.get("/api/donations", requireAuth, async (req, res) => {
+    try {
+      const user = req.user!;
+      const vendorId = typeof req.query.vendorId === "string" ? req.query.vendorId : undefined;
+      let scope;
+      if (user.role === "admin") {
+        scope = { vendorId };
+      } else if (user.role === "charity") {
+        scope = { charityUserId: user.id };
+      } else if (user.role === "vendor" && user.vendorId) {
+        scope = { vendorId: user.vendorId };
+      } else {
+        return res.status(403).json({ error: "You do not have permission to perform this action" });
+      }
+
+      res.json(await storage.getDonations(scope));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch donations" });
+    }
+  });
+
+  // Get a user's reservations
+  app.get("/api/users/:userId/reservations", requireSelf("userId"), async (req, res) => {
+    try {
+      const reservations = await storage.getReservationsByUser(req.params.userId);
+      res.json(reservations.map(r => ({ ...r, qrPayload: pickupQrPayload(r) })));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch reservations" });
+    }
+  });
+
+  // A user's queue tickets, newest first; open ones carry their place in line and ETA
+  app.get("/api/users/:userId/tickets", requireSelf("userId"), async (req, res) => {
+    try {
+      const tickets = await storage.getQueueTicketsByUser(req.params.userId);
+      const now = new Date();
+      const result = [];
+      for (const ticket of tickets) {
+        const stall = await storage.getStall(ticket.stallId);
+        if (!stall) continue;
+        const dayTickets = await storage.getQueueTicketsByStall(ticket.stallId, ticket.serviceDate);
+        result.push({ ...ticketView(ticket, dayTickets, stall, now), stallName: stall.name });
+      }
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch tickets" });
+    }
+  });
+
+  // A user's waitlist entries, newest first, with their place in line while waiting
+  app.get("/api/users/:userId/waitlist", requireSelf("userId"), async (req, res) => {
+    try {
+      const entries = await storage.getWaitlistEntriesByUser(req.params.userId);
+      const result = [];
+      for (const entry of entries) {
+        const { position } = waitlistSummary(await storage.getWaitlistByListing(entry.listingId), req.params.userId);
+        result.push({ ...entry, position: entry.status === "waiting" ? position : undefined });
+      }
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch waitlist" });
+    }
+  });
+
+  // Food rescued by a customer through collected reservations
+  app.get("/api/users/:userId/impact", requireSelf("userId"), async (req, res) => {
+    try {
+      const scope = { userId: req.params.userId };
+      res.json(formatImpactReport(await storage.getImpactTotals(scope), await storage.getImpactByCategory(scope)));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch impact" });
+    }
+  });
+
+  // Platform-wide impact totals, or one vendor's with ?vendorId=
+  app.get("/api/impact", async (req, res) => {
+    try {
+      const vendorId = typeof req.query.vendorId === "string" ? req.query.vendorId : undefined;
+      if (vendorId && !(await storage.getVendor(vendorId))) {
+        return res.status(404).json({ error: "Vendor not found" });
+      }
+
+      const scope = { vendorId };
+      res.json(formatImpactReport(await storage.getImpactTotals(scope), await storage.getImpactByCategory(scope)));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch impact" });
+    }
+  });
+
+  // Weight and emission factors per food category
+  app.get("/api/food-categories", async (req, res) => {
+    try {
+      res.json(categoryFactorTable(await storage.getFoodCategoryFactors()));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch food categories" });
+    }
+  });
+
+  // Tune a category's factors; applies to pickups collected from now on
+  app.put("/api/food-categories/:category", requireRole("admin"), async (req, res) => {
+    try {
+      const category = req.params.category as FoodCategory;
+      if (!foodCategories.includes(category)) {
+        return res.status(404).json({ error: "Food category not found" });
+      }
+
+      const parsed = updateFoodCategoryFactorSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid factors" });
+      }
+
+      await storage.setFoodCategoryFactor(category, parsed.data.kgPerPortion, parsed.data.co2eKgPerKg);
+      const factors = categoryFactorTable(await storage.getFoodCategoryFactors());
+      res.json(factors.find(f => f.category === category));
+    } catch (error) {
+      console.error("Error updating food category factors:", error);
+      res.status(500).json({ error: "Failed to update food category" });
+    }
+  });
+
+  // Cancel an uncollected, unpaid pickup. The portions are offered to the listing's waitlist or go back on sale
+  app.post("/api/reservations/:id/cancel", requireAuth, async (req, res) => {
+    try {
+      const reservation = await storage.getReservation(req.params.id);
+      if (!reservation) {
+        return res.status(404).json({ error: "Reservation not found" });
+      }
+      if (reservation.userId !== req.user!.id) {
+        return res.status(403).json({ error: "You can only cancel your own pickups" });
+      }
+      const paymentStatus = reservation.paymentStatus === "pending"
+        ? (await expireLapsedPayment("reservation", reservation.id))?.status
+        : reservation.paymentStatus;
+      if (paymentStatus === "paid") {
+        return res.status(409).json({ error: "Paid pickups can't be cancelled here; ask the vendor for a refund" });
+      }
+      if (paymentStatus === "pending") {
+        return res.status(409).json({ error: "A payment for this pickup is in progress; try again once it completes or expires" });
+      }
+      if (await storage.getDonationByReservation(reservation.id)) {
+        return res.status(409).json({ error: "Charity claims can't be cancelled" });
+      }
+
+      const cancelled = await storage.cancelReservation(reservation.id, waitlistOfferExpiry());
+      if (!cancelled) {
+        return res.status(409).json({ error: "Only uncollected pickups can be cancelled" });
+      }
+      res.json(cancelled);
+    } catch (error) {
+      console.error("Error cancelling reservation:", error);
+      res.status(500).json({ error: "Failed to cancel reservation" });
+    }
+  });
+
+  // Vendor redeems a customer's pickup code (typed or scanned from the QR)
+  app.post("/api/reservations/redeem", requireRole("vendor"), async (req, res) => {
+    try {
+      const parsed = redeemPickupSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Pickup code is required" });
+      }
+
+      const reservation = await storage.getReservationByPickupCode(parsePickupCode(parsed.data.code));
+      const listing = reservation ? await storage.getFoodListing(reservation.listingId) : undefined;
+      // Codes for other vendors' listings look the same as unknown codes
+      if (!reservation || !listing || !canManageVendor(req.user, listing.vendorId)) {
+        return res.status(404).json({ error: "Invalid pickup code" });
+      }
+
+      if (reservation.status !== "reserved") {
+        const reason = reservation.status === "collected"
+          ? "This pickup code has already been used"
+          : `This reservation is ${reservation.status.replace("_", "-")}`;
+        return res.status(409).json({ error: reason, reservation });
+      }
+
+      const factors = categoryFactorTable(await storage.getFoodCategoryFactors());
+      const donation = await storage.getDonationByReservation(reservation.id);
+      const collected = await storage.markReservationCollected(
+        reservation.id,
+        buildImpactEntry(reservation, listing, factors, !!donation),
+      );
+      if (!collected) {
+        return res.status(409).json({ error: "This pickup code has already been used" });
+      }
+
+      res.json({ reservation: collected, listing, donation });
+    } catch (error) {
+      console.error("Error redeeming pickup code:", error);
+      res.status(500).json({ error: "Failed to redeem pickup code" });
+    }
+  });
+
+  // Start paying for a reservation or delivery request. The amount is worked out on the server;
+  // the response's nextAction says how the customer completes the payment (PayNow QR or card).
+  app.post("/api/payments", requireAuth, async (req, res) => {
+    try {
+      const parsed = createPaymentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message ?? "Invalid payment request" });
+      }
+
+      const subject = await getPayableSubject(parsed.data.subjectType, parsed.data.subjectId);
+      if (!subject || subject.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+      if (!subject.open) {
+        return res.status(409).json({ error: "This order is no longer open for payment" });
+      }
+      if (subject.paymentStatus === "paid" || subject.paymentStatus === "refunded") {
+        return res.status(409).json({ error: `This order has already been ${subject.paymentStatus}` });
+      }
+      if (subject.paymentStatus === "pending") {
+        const payment = await expireLapsedPayment(subject.type, subject.id);
+        if (payment?.status === "pending") {
+          return res.status(409).json({ error: "A payment for this order is already in progress", payment });
+        }
+        if (payment?.status === "paid") {
+          return res.status(409).json({ error: "This order has already been paid" });
+        }
+      }
+      if (parseFloat(subject.amount) <= 0) {
+        return res.status(400).json({ error: "Nothing to pay for this order" });
+      }
+
+      res.status(201).json(await startPayment(subject, parsed.data.method));
+    } catch (error) {
+      console.error("Error starting payment:", error);
+      res.status(500).json({ error: "Failed to start payment" });
+    }
+  });
+
+  // Payment status, for the payer and admins
+  app.get("/api/payments/:id", requireAuth, async (req, res) => {
+    try {
+      const payment = await storage.getPayment(req.params.id);
+      if (!payment || (payment.userId !== req.user!.id && req.user!.role !== "admin")) {
+        return res.status(404).json({ error: "Payment not found" });
+      }
+      res.json(payment);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch payment" });
+    }
+  });
+
+  // Provider callback. Authenticated by its signature over the raw body, not by session.
+  app.post("/api/payments/webhook", async (req, res) => {
+    try {
+      const rawBody = Buffer.isBuffer(req.rawBody) ? req.rawBody : Buffer.alloc(0);
+      const payment = await handlePaymentWebhook(rawBody, req.headers);
+      // Acknowledge unknown or repeated events too, so the provider stops retrying them
+      res.json({ received: true, payment: payment ?? null });
+    } catch (error) {
+      if (error instanceof PaymentWebhookError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error handling payment webhook:", error);
+      res.status(500).json({ error: "Failed to handle payment webhook" });
+    }
+  });
+
+  // Complete a pending payment with a test provider by sending its signed webhook through
+  // the normal webhook handling. Not available with real providers or in production.
+  app.post("/api/payments/:id/simulate", requireAuth, async (req, res) => {
+    try {
+      const provider = paymentProvider();
+      if (!canSimulatePayments() || !provider.simulateWebhook) {
+        return res.status(404).json({ error: "Payment simulation is not available" });
+      }
+
+      const payment = await storage.getPayment(req.params.id);
+      if (!payment || payment.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Payment not found" });
+      }
+      const outcome = req.body.outcome === "failed" ? "failed" : "succeeded";
+      if (payment.status !== "pending") {
+        return res.status(409).json({ error: `This payment is already ${payment.status}` });
+      }
+
+      const webhook = provider.simulateWebhook({
+        type: outcome === "failed" ? "payment.failed" : "payment.succeeded",
+        providerPaymentId: payment.providerPaymentId,
+      });
+      res.json(await handlePaymentWebhook(webhook.rawBody, webhook.headers));
+    } catch (error) {
+      console.error("Error simulating payment:", error);
+      res.status(500).json({ error: "Failed to simulate payment" });
+    }
+  });
+
+  // Refund a paid order in full: admins, or the vendor for their own listings' reservations.
+  // An uncollected pickup is cancelled with it.
+  app.post("/api/payments/:id/refund", requireRole("vendor"), async (req, res) => {
+    try {
+      const payment = await storage.getPayment(req.params.id);
+      if (!payment) {
+        return res.status(404).json({ error: "Payment not found" });
+      }
+
+      let vendorId: string | undefined;
+      if (payment.subjectType === "reservation") {
+        const reservation = await storage.getReservation(payment.subjectId);
+        vendorId = reservation ? (await storage.getFoodListing(reservation.listingId))?.vendorId : undefined;
+      }
+      if (req.user!.role !== "admin" && (!vendorId || !canManageVendor(req.user, vendorId))) {
+        return res.status(403).json({ error: "You can only refund orders for your own business" });
+      }
+      if (payment.status !== "paid") {
+        return res.status(409).json({ error: `Only paid payments can be refunded; this one is ${payment.status}` });
+      }
+
+      const refunded = await refundPayment(payment);
+      if (!refunded) {
+        return res.status(409).json({ error: "This payment has already been refunded" });
+      }
+      res.json(refunded);
+    } catch (error) {
+      console.error("Error refunding payment:", error);
+      res.status(500).json({ error: "Failed to refund payment" });
+    }
+  });
+
+  // Update food listing availability
+  app.patch("/api/food-listings/:id/availability", requireRole("vendor"), async (req, res) => {
+    try {
+      const existing = await storage.getFoodListing(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Food listing not found" });
+      }
+      if (!canManageVendor(req.user, existing.vendorId)) {
+        return res.status(403).json({ error: "You can only edit your own listings" });
+      }
+
+      const { available } = req.body;
+      const listing = await storage.updateFoodListingAvailability(
+        req.params.id,
+        available
+      );
+      res.json(listing);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update availability" });
+    }
+  });
+
+  // Bulk-create listings from a CSV upload (multipart field "file"). Every row is
+  // validated first; if any row fails nothing is created and all row errors are returned.
+  app.post("/api/vendors/:id/food-listings/import", requireRole("vendor"), async (req, res) => {
+    try {
+      const vendor = await storage.getVendor(req.params.id);
+      if (!vendor) {
+        return res.status(404).json({ error: "Vendor not found" });
+      }
+      if (!canManageVendor(req.user, vendor.id)) {
+        return res.status(403).json({ error: "You can only post listings for your own business" });
+      }
+
+      const file = await receiveCsvUpload(req, res);
+      if (!file) {
+        return res.status(400).json({ error: "CSV file is required" });
+      }
+
+      const { rows, errors } = parseListingCsv(file.buffer.toString("utf8"), vendor.id);
+      const hoursExceptions = await storage.getVendorHoursExceptions(vendor.id);
+      for (const { row, listing } of rows) {
+        const windowError = validatePickupWindow(listing.pickupTimeStart, listing.pickupTimeEnd);
+        if (windowError) {
+          errors.push({ row, field: "pickupTimeEnd", message: windowError });
+        } else if (!isWithinOpeningHours(vendor, hoursExceptions, listing.pickupTimeStart, listing.pickupTimeEnd)) {
+          errors.push({ row, field: "pickupTimeStart", message: OUTSIDE_OPENING_HOURS });
+        }
+      }
+      if (errors.length > 0) {
+        errors.sort((a, b) => a.row - b.row);
+        return res.status(400).json({ error: "Some rows are invalid; nothing was imported", errors });
+      }
+
+      const listings = await storage.createFoodListings(rows.map(r => r.listing));
+      res.status(201).json({ imported: listings.length, listings });
+    } catch (error) {
+      const message = csvUploadErrorMessage(error);
+      if (message) {
+        return res.status(400).json({ error: message });
+      }
+      console.error("Error importing food listings:", error);
+      res.status(500).json({ error: "Failed to import food listings" });
+    }
+  });
+
+  // Download a vendor's full listing history as CSV (re-importable once ended pickup windows are updated)
+  app.get("/api/vendors/:id/food-listings/export", requireRole("vendor"), async (req, res) => {
+    try {
+      const vendor = await storage.getVendor(req.params.id);
+      if (!vendor) {
+        return res.status(404).json({ error: "Vendor not found" });
+      }
+      if (!canManageVendor(req.user, vendor.id)) {
+        return res.status(403).json({ error: "You can only export your own listings" });
+      }
+
+      const listings = await storage.getFoodListingsByVendor(vendor.id);
+      const reservations = [];
+      for (const listing of listings) {
+        reservations.push(...await storage.getReservationsByListing(listing.id));
+      }
+
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="listings-${vendor.id}-${singaporeDateString()}.csv"`);
+      res.send(listingsToCsv(listings, reservations));
+    } catch (error) {
+      console.error("Error exporting food listings:", error);
+      res.status(500).json({ error: "Failed to export food listings" });
+    }
+  });
+
+  // Sell-through analytics for a vendor over ?from=&to= (Singapore dates, default last 30 days)
+  app.get("/api/vendors/:id/analytics", requireRole("vendor"), async (req, res) => {
+    try {
+      const vendor = await storage.getVendor(req.params.id);
+      if (!vendor) {
+        return res.status(404).json({ error: "Vendor not found" });
+      }
+      if (!canManageVendor(req.user, vendor.id)) {
+        return res.status(403).json({ error: "You can only view your own analytics" });
+      }
+
+      const parsed = vendorAnalyticsQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message ?? "Invalid date range" });
+      }
+
+      const range = vendorAnalyticsRange(parsed.data);
+      const rangeError = vendorAnalyticsRangeError(range);
+      if (rangeError) {
+        return res.status(400).json({ error: rangeError });
+      }
+
+      res.json(await getVendorAnalytics(vendor.id, range));
+    } catch (error) {
+      console.error("Error computing vendor analytics:", error);
+      res.status(500).json({ error: "Failed to fetch vendor analytics" });
+    }
+  });
+
+  // A vendor's recurring listing templates with their next week of scheduled dates
+  app.get("/api/vendors/:id/listing-templates", requireRole("vendor"), async (req, res) => {
+    try {
+      if (!canManageVendor(req.user, req.params.id)) {
+        return res.status(403).json({ error: "You can only view your own templates" });
+      }
+
+      const templates = await storage.getListingTemplatesByVendor(req.params.id);
+      const withSchedule = [];
+      for (const template of templates) {
+        const days = await storage.getListingTemplateDays(template.id, singaporeDateString());
+        withSchedule.push({ ...template, schedule: upcomingTemplateDays(template, days) });
+      }
+      res.json(withSchedule);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch listing templates" });
+    }
+  });
+
+  // Create a recurring listing template
+  app.post("/api/listing-templates", requireRole("vendor"), async (req, res) => {
+    try {
+      const user = req.user!;
+      const owner = await postingVendor(user, req.body.vendorId);
+      if ("error" in owner) {
+        return res.status(owner.status).json({ error: owner.error });
+      }
+      const { vendorId } = owner;
+      if (!canManageVendor(user, vendorId)) {
+        return res.status(403).json({ error: "You can only create templates for your own business" });
+      }
+
+      const parsed = insertListingTemplateSchema.safeParse({ ...req.body, vendorId });
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message || "Invalid template data" });
+      }
+      if (parsed.data.pickupEnd <= parsed.data.pickupStart) {
+        return res.status(400).json({ error: "Pickup window must end after it starts" });
+      }
+      const hoursError = await validateTemplateHours(
+        parsed.data.vendorId,
+        parsed.data.daysOfWeek,
+        parsed.data.pickupStart,
+        parsed.data.pickupEnd,
+      );
+      if (hoursError) {
+        return res.status(400).json({ error: hoursError });
+      }
+
+      const template = await storage.createListingTemplate(parsed.data);
+      res.status(201).json(template);
+    } catch (error) {
+      console.error("Error creating listing template:", error);
+      res.status(500).json({ error: "Failed to create listing template" });
+    }
+  });
+
+  // Edit a template; listings already published are not changed
+  app.patch("/api/listing-templates/:id", requireRole("vendor"), async (req, res) => {
+    try {
+      const existing = await storage.getListingTemplate(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Listing template not found" });
+      }
+      if (!canManageVendor(req.user, existing.vendorId)) {
+        return res.status(403).json({ error: "You can only edit your own templates" });
+      }
+
+      const parsed = updateListingTemplateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message || "Invalid template data" });
+      }
+      if (Object.keys(parsed.data).length === 0) {
+        return res.status(400).json({ error: "Nothing to update" });
+      }
+      if ((parsed.data.pickupEnd ?? existing.pickupEnd) <= (parsed.data.pickupStart ?? existing.pickupStart)) {
+        return res.status(400).json({ error: "Pickup window must end after it starts" });
+      }
+      if (parsed.data.daysOfWeek || parsed.data.pickupStart || parsed.data.pickupEnd) {
+        const hoursError = await validateTemplateHours(
+          existing.vendorId,
+          parsed.data.daysOfWeek ?? existing.daysOfWeek,
+          parsed.data.pickupStart ?? existing.pickupStart,
+          parsed.data.pickupEnd ?? existing.pickupEnd,
+        );
+        if (hoursError) {
+          return res.status(400).json({ error: hoursError });
+        }
+      }
+
+      const template = await storage.updateListingTemplate(existing.id, parsed.data);
+      res.json(template);
+    } catch (error) {
+      console.error("Error updating listing template:", error);
+      res.status(500).json({ error: "Failed to update listing template" });
+    }
+  });
+
+  // Delete a template; listings already published stay up
+  app.delete("/api/listing-templates/:id", requireRole("vendor"), async (req, res) => {
+    try {
+      const existing = await storage.getListingTemplate(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Listing template not found" });
+      }
+      if (!canManageVendor(req.user, existing.vendorId)) {
+        return res.status(403).json({ error: "You can only edit your own templates" });
+      }
+
+      await storage.deleteListingTemplate(existing.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete listing template" });
+    }
+  });
+
+  // Adjust the quantity for one date, or skip it
+  app.put("/api/listing-templates/:id/days/:date", requireRole("vendor"), async (req, res) => {
+    try {
+      const existing = await storage.getListingTemplate(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Listing template not found" });
+      }
+      if (!canManageVendor(req.user, existing.vendorId)) {
+        return res.status(403).json({ error: "You can only edit your own templates" });
+      }
+
+      const date = req.params.date;
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(new Date(date).getTime())) {
+        return res.status(400).json({ error: "Date must be YYYY-MM-DD" });
+      }
+      if (!existing.daysOfWeek.includes(singaporeWeekday(date))) {
+        return res.status(400).json({ error: "This template doesn't run on that day" });
+      }
+      if (date < singaporeDateString()) {
+        return res.status(400).json({ error: "That date has already passed" });
+      }
+
+      const parsed = updateListingTemplateDaySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid quantity" });
+      }
+      if (Object.keys(parsed.data).length === 0) {
+        return res.status(400).json({ error: "Nothing to update" });
+      }
+
+      const day = await storage.setListingTemplateDay(existing.id, date, parsed.data);
+      if (!day) {
+        return res.status(409).json({ error: "That day's listing is already published; edit the listing instead" });
+      }
+      res.json(day);
+    } catch (error) {
+      console.error("Error updating template day:", error);
+      res.status(500).json({ error: "Failed to update template day" });
+    }
+  });
+
+  // List vendors with their opening hours (?type=, ?openNow=true or ?openAt=YYYY-MM-DDTHH:mm Singapore time)
+  app.get("/api/vendors", async (req, res) => {
+    try {
+      const parsed = vendorSearchSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message || "Invalid search parameters" });
+      }
+
+      const { type, openNow, openAt } = parsed.data;
+      const at = openAt ?? new Date();
+      const vendors = await storage.getAllVendors();
+      const hoursExceptions = await storage.getVendorHoursExceptions(undefined, addDaysToDateString(singaporeDateString(at), -1));
+      const results = vendors
+        .filter(v => !type || v.type === type)
+        .map(v => ({
+          ...v,
+          openingHours: formatWeeklyHours(v.weeklyHours),
+          isOpen: isVendorOpenAt(v, hoursExceptions, at),
+        }))
+        .filter(v => !(openNow || openAt) || v.isOpen);
+      res.json(results);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch vendors" });
+    }
+  });
+
+  // A vendor's weekly hours and upcoming closures/special hours
+  app.get("/api/vendors/:id/hours", async (req, res) => {
+    try {
+      const vendor = await storage.getVendor(req.params.id);
+      if (!vendor) {
+        return res.status(404).json({ error: "Vendor not found" });
+      }
+
+      const today = singaporeDateString();
+      const exceptions = await storage.getVendorHoursExceptions(vendor.id, addDaysToDateString(today, -1));
+      res.json({
+        weeklyHours: vendor.weeklyHours,
+        openingHours: formatWeeklyHours(vendor.weeklyHours),
+        exceptions: exceptions.filter(e => e.date >= today),
+        isOpen: isVendorOpenAt(vendor, exceptions, new Date()),
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch opening hours" });
+    }
+  });
+
+  // Replace a vendor's weekly hours; an empty list means hours aren't set
+  app.put("/api/vendors/:id/hours", requireRole("vendor"), async (req, res) => {
+    try {
+      const existing = await storage.getVendor(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Vendor not found" });
+      }
+      if (!canManageVendor(req.user, existing.id)) {
+        return res.status(403).json({ error: "You can only edit your own business" });
+      }
+
+      const parsed = updateWeeklyHoursSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message || "Invalid opening hours" });
+      }
+
+      const vendor = await storage.updateVendor(existing.id, { weeklyHours: parsed.data.weeklyHours });
+      res.json(vendor);
+    } catch (error) {
+      console.error("Error updating opening hours:", error);
+      res.status(500).json({ error: "Failed to update opening hours" });
+    }
+  });
+
+  // Close for a date (public holiday, closure) or set special hours for it
+  app.put("/api/vendors/:id/hours/exceptions/:date", requireRole("vendor"), async (req, res) => {
+    try {
+      const vendor = await storage.getVendor(req.params.id);
+      if (!vendor) {
+        return res.status(404).json({ error: "Vendor not found" });
+      }
+      if (!canManageVendor(req.user, vendor.id)) {
+        return res.status(403).json({ error: "You can only edit your own business" });
+      }
+
+      const date = req.params.date;
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(new Date(date).getTime())) {
+        return res.status(400).json({ error: "Date must be YYYY-MM-DD" });
+      }
+      if (date < singaporeDateString()) {
+        return res.status(400).json({ error: "That date has already passed" });
+      }
+
+      const parsed = vendorHoursExceptionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message || "Invalid hours" });
+      }
+
+      const exception = await storage.setVendorHoursException(vendor.id, date, parsed.data);
+      res.json(exception);
+    } catch (error) {
+      console.error("Error updating hours exception:", error);
+      res.status(500).json({ error: "Failed to update opening hours" });
+    }
+  });
+
+  // Go back to the weekly hours for a date
+  app.delete("/api/vendors/:id/hours/exceptions/:date", requireRole("vendor"), async (req, res) => {
+    try {
+      const vendor = await storage.getVendor(req.params.id);
+      if (!vendor) {
+        return res.status(404).json({ error: "Vendor not found" });
+      }
+      if (!canManageVendor(req.user, vendor.id)) {
+        return res.status(403).json({ error: "You can only edit your own business" });
+      }
+
+      const date = req.params.date;
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(new Date(date).getTime())) {
+        return res.status(400).json({ error: "Date must be YYYY-MM-DD" });
+      }
+
+      await storage.deleteVendorHoursException(vendor.id, date);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting hours exception:", error);
+      res.status(500).json({ error: "Failed to update opening hours" });
+    }
+  });
+
+  // Create vendor
+  app.post("/api/vendors", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = insertVendorSchema.parse(req.body);
+      const vendor = await storage.createVendor(validatedData);
+      res.json(vendor);
+    } catch (error) {
+      res.status(400).json({ error: "Invalid vendor data" });
+    }
+  });
+
+  // Set a vendor's coordinates (used for distance search); null clears them
+  app.put("/api/vendors/:id/location", requireRole("vendor"), async (req, res) => {
+    try {
+      const existing = await storage.getVendor(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Vendor not found" });
+      }
+      if (!canManageVendor(req.user, existing.id)) {
+        return res.status(403).json({ error: "You can only edit your own business" });
+      }
+
+      const parsed = updateVendorLocationSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message || "Invalid coordinates" });
+      }
+
+      const { latitude, longitude } = parsed.data;
+      const vendor = await storage.updateVendor(existing.id, {
+        latitude: latitude === null ? null : latitude.toFixed(7),
+        longitude: longitude === null ? null : longitude.toFixed(7),
+      });
+      res.json(vendor);
+    } catch (error) {
+      console.error("Error updating vendor location:", error);
+      res.status(500).json({ error: "Failed to update vendor location" });
+    }
+  });
+
+  // Upload a vendor's logo/storefront photo (multipart field "image")
+  app.post("/api/vendors/:id/image", requireRole("vendor"), async (req, res) => {
+    try {
+      const existing = await storage.getVendor(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Vendor not found" });
+      }
+      if (!canManageVendor(req.user, existing.id)) {
+        return res.status(403).json({ error: "You can only edit your own business" });
+      }
+
+      const file = await receiveImageUpload(req, res);
+      if (!file) {
+        return res.status(400).json({ error: "Image file is required" });
+      }
+
+      const image = await storeUploadedImage(file.buffer);
+      const vendor = await storage.updateVendor(existing.id, { imageUrl: image.imageUrl });
+      res.json({ vendor, image });
+    } catch (error) {
+      const message = uploadErrorMessage(error);
+      if (message) {
+        return res.status(400).json({ error: message });
+      }
+      console.error("Error uploading vendor image:", error);
+      res.status(500).json({ error: "Failed to upload image" });
+    }
+  });
+
+  // Submit rating
+  app.post("/api/ratings", async (req, res) => {
+    try {
+      const validatedData = insertRatingSchema.parse(req.body);
+      const rating = await storage.createRating(validatedData);
+      res.json(rating);
+    } catch (error) {
+      res.status(400).json({ error: "Invalid rating data" });
+    }
+  });
+
+  // Get ratings for an entity
+  app.get("/api/ratings/:entityType/:entityId", async (req, res) => {
+    try {
+      const ratings = await storage.getRatingsByEntity(
+        req.params.entityType,
+        req.params.entityId
+      );
+      res.json(ratings);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch ratings" });
+    }
+  });
+
+  // Simulate real-time queue updates (demo only; kept out of the queue history)
+  app.post("/api/simulate-queue-update", async (req, res) => {
+    try {
+      if (!canSimulateQueues()) {
+        return res.status(404).json({ error: "Queue simulation is not available" });
+      }
+      const stalls = await storage.getAllStalls();
+      // Randomly update some stalls
+      const today = singaporeDateString();
+      for (const stall of stalls) {
+        // Stalls running a virtual queue already get their length from its tickets
+        const tickets = await storage.getQueueTicketsByStall(stall.id, today);
+        if (tickets.some(isOpenTicket)) continue;
+        if (Math.random() > 0.7) {
+          const change = Math.floor(Math.random() * 5) - 2; // -2 to +2
+          const newQueue = Math.max(0, stall.currentQueue + change);
+          await updateStallQueue(stall.id, newQueue, undefined, { simulated: true }); // Wait follows the stall's service rate
+        }
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to simulate update" });
+    }
+  });
+
+  // ===== ADMIN API ROUTES =====
+
+  // Get all canteens
+  app.get("/api/canteens", async (req, res) => {
+    try {
+      const canteens = await storage.getAllCanteens();
+      res.json(canteens);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch canteens" });
+    }
+  });
+
+  // Create canteen
+  app.post("/api/canteens", requireRole("admin"), async (req, res) => {
+    try {
+      const { name, location } = req.body;
+      const canteen = await storage.createCanteen({ name, location });
+      res.json(canteen);
+    } catch (error) {
+      res.status(400).json({ error: "Invalid canteen data" });
+    }
+  });
+
+  // Delete canteen
+  app.delete("/api/canteens/:id", requireRole("admin"), async (req, res) => {
+    try {
+      await storage.deleteCanteen(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete canteen" });
+    }
+  });
+
+  // Create stall
+  app.post("/api/stalls", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = insertStallSchema.parse(req.body);
+      const stall = await storage.createStall(validatedData);
+      res.json(stall);
+    } catch (error) {
+      res.status(400).json({ error: "Invalid stall data" });
+    }
+  });
+
+  // Delete stall
+  app.delete("/api/stalls/:id", requireRole("admin"), async (req, res) => {
+    try {
+      await storage.deleteStall(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete stall" });
+    }
+  });
+
+  // Delete vendor
+  app.delete("/api/vendors/:id", requireRole("admin"), async (req, res) => {
+    try {
+      await storage.deleteVendor(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete vendor" });
+    }
+  });
+
+  // Delete food listing
+  app.delete("/api/food-listings/:id", requireRole("admin"), async (req, res) => {
+    try {
+      await storage.deleteFoodListing(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete food listing" });
+    }
+  });
+
+  // Change a user's role
+  app.patch("/api/users/:userId/role", requireRole("admin"), async (req, res) => {
+    try {
+      const { role } = updateUserRoleSchema.parse(req.body);
+      const user = await storage.updateUserRole(req.params.userId, role);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      res.json(toPublicUser(user));
+    } catch (error) {
+      res.status(400).json({ error: "Invalid role" });
+    }
+  });
+
+  // Link a vendor-staff account to a vendor (or unlink with null)
+  app.patch("/api/users/:userId/vendor", requireRole("admin"), async (req, res) => {
+    try {
+      const parsed = linkUserVendorSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid vendor" });
+      }
+      const { vendorId } = parsed.data;
+      if (vendorId && !(await storage.getVendor(vendorId))) {
+        return res.status(400).json({ error: "Invalid vendor" });
+      }
+
+      const user = await storage.linkUserToVendor(req.params.userId, vendorId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      res.json(toPublicUser(user));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to link vendor" });
+    }
+  });
+
+  // Link a stall-staff account to a stall (or unlink with null)
+  app.patch("/api/users/:userId/stall", requireRole("admin"), async (req, res) => {
+    try {
+      const parsed = linkUserStallSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid stall" });
+      }
+      const { stallId } = parsed.data;
+      if (stallId && !(await storage.getStall(stallId))) {
+        return res.status(400).json({ error: "Invalid stall" });
+      }
+
+      const user = await storage.linkUserToStall(req.params.userId, stallId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      res.json(toPublicUser(user));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to link stall" });
     }
   });
 
   const httpServer = createServer(app);
   return httpServer;
 }
+
+/**
+ * Sell-through analytics for a vendor's listings and their reservations
+ */
+async function getVendorAnalytics(vendorId: string, range: { from: string; to: string }) {
+  const listings = await storage.getFoodListingsByVendor(vendorId);
+  const reservations = [];
+  for (const listing of listings) {
+    reservations.push(...await storage.getReservationsByListing(listing.id));
+  }
+  return computeVendorAnalytics(listings, reservations, range);
+}
+
+/**
+ * The vendor something new is posted for: vendor staff always post for their own
+ * business, admins must name an existing vendor. Otherwise the error to respond with.
+ */
+async function postingVendor(
+  user: Express.User,
+  requestedVendorId: unknown,
+): Promise<{ vendorId: string } | { status: number; error: string }> {
+  if (user.role !== "admin") {
+    return user.vendorId ? { vendorId: user.vendorId } : { status: 403, error: "Your account isn't linked to a business" };
+  }
+  if (typeof requestedVendorId !== "string" || !requestedVendorId) {
+    return { status: 400, error: "vendorId is required" };
+  }
+  if (!(await storage.getVendor(requestedVendorId))) {
+    return { status: 404, error: "Vendor not found" };
+  }
+  return { vendorId: requestedVendorId };
+}
+
+/**
+ * Returns an error message if a listing's pickup window is unusable, otherwise undefined
+ */
+function validatePickupWindow(start: Date, end: Date): string | undefined {
+  if (end.getTime() <= start.getTime()) {
+    return "Pickup window must end after it starts";
+  }
+  if (end.getTime() <= Date.now()) {
+    return "Pickup window has already closed";
+  }
+  return undefined;
+}
+
+const OUTSIDE_OPENING_HOURS = "Pickup window is outside the vendor's opening hours";
+
+/**
+ * Returns an error message if the vendor isn't open for the whole pickup window, otherwise undefined
+ */
+async function validateOpeningHours(vendorId: string, start: Date, end: Date): Promise<string | undefined> {
+  const vendor = await storage.getVendor(vendorId);
+  if (!vendor) return undefined;
+  const exceptions = await storage.getVendorHoursExceptions(vendor.id, addDaysToDateString(singaporeDateString(start), -1));
+  return isWithinOpeningHours(vendor, exceptions, start, end) ? undefined : OUTSIDE_OPENING_HOURS;
+}
+
+/**
+ * Returns an error message if a recurring pickup window falls outside the vendor's
+ * weekly hours on any of its days, otherwise undefined
+ */
+async function validateTemplateHours(
+  vendorId: string,
+  daysOfWeek: number[],
+  pickupStart: string,
+  pickupEnd: string,
+): Promise<string | undefined> {
+  const vendor = await storage.getVendor(vendorId);
+  if (!vendor) return undefined;
+  const closedDays = weekdaysOutsideHours(vendor, daysOfWeek, pickupStart, pickupEnd);
+  if (closedDays.length === 0) return undefined;
+  return `${OUTSIDE_OPENING_HOURS} on ${closedDays.map(d => weekdayLabels[d]).join(", ")}`;
+}
+
+/**
+ * Listing search params with `blockId` defaulted to the user's current campus block.
+ * An explicit `blockId` (even an empty one, i.e. "anywhere") wins.
+ */
+function withCurrentBlock(query: Record<string, unknown>, user?: Express.User): Record<string, unknown> {
+  if ("blockId" in query || !user?.currentBlockId) return query;
+  return { ...query, blockId: user.currentBlockId };
+}
@@ -0,0 +1,33 @@
+import type { FoodListing } from "@shared/schema";
+
+// Charities can claim what's left once a listing is this close to the end of its pickup window
+export const CHARITY_CLAIM_WINDOW_MINUTES = 60;
+
+/**
+ * Why a charity can't bulk-claim a listing right now, or undefined if it can
+ */
+export function charityClaimBlocker(listing: FoodListing, now: Date = new Date()): string | undefined {
+  if (!listing.charityOptIn) {
+    return "This listing isn't offered to charities";
+  }
+  if (!listing.available || listing.quantity === 0) {
+    return "Nothing is left on this listing";
+  }
+  const minutesLeft = (listing.pickupTimeEnd.getTime() - now.getTime()) / 60000;
+  if (minutesLeft <= 0) {
+    return "The pickup window for this listing has closed";
+  }
+  if (minutesLeft > CHARITY_CLAIM_WINDOW_MINUTES) {
+    return `Charity claims open ${CHARITY_CLAIM_WINDOW_MINUTES} minutes before pickup ends`;
+  }
+  return undefined;
+}
+
+/**
+ * Opted-in listings with portions left that charities can claim now, ending soonest first
+ */
+export function charityClaimableListings(listings: FoodListing[], now: Date = new Date()): FoodListing[] {
+  return listings
+    .filter(listing => !charityClaimBlocker(listing, now))
+    .sort((a, b) => a.pickupTimeEnd.getTime() - b.pickupTimeEnd.getTime());
+}
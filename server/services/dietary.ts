@@ -0,0 +1,33 @@
+import type { DietaryTag } from "@shared/schema";
+
+/**
+ * Whether something tagged with `tags` is acceptable to a diner with `restrictions`.
+ * Certifications must be present (vegan also counts as vegetarian); "*_free"
+ * restrictions exclude the matching "contains_*" allergen tag.
+ * Unknown restrictions are ignored rather than excluding everything.
+ */
+export function satisfiesDietaryRestrictions(tags: readonly string[], restrictions: readonly string[]): boolean {
+  const has = (tag: DietaryTag) => tags.includes(tag);
+
+  return restrictions.every(raw => {
+    const restriction = raw.toLowerCase().replace(/-/g, "_");
+    switch (restriction) {
+      case "halal":
+        return has("halal");
+      case "vegetarian":
+        return has("vegetarian") || has("vegan");
+      case "vegan":
+        return has("vegan");
+      case "nut_free":
+        return !has("contains_nuts");
+      case "shellfish_free":
+        return !has("contains_shellfish");
+      case "dairy_free":
+        return !has("contains_dairy");
+      case "gluten_free":
+        return !has("contains_gluten");
+      default:
+        return true;
+    }
+  });
+}
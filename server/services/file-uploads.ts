@@ -0,0 +1,60 @@
+import type { Request, Response } from "express";
+import multer from "multer";
+
+// A rejected upload; the message is shown to the uploader
+export class UploadError extends Error {}
+
+export interface SingleFileUploadOptions {
+  field: string; // Multipart field the file is sent in
+  maxBytes: number;
+  tooLargeMessage: string;
+  invalidMessage: string; // Any other multer failure, e.g. a second file
+  // Why a file is refused from its metadata, or undefined to accept it
+  rejectFile?: (file: Express.Multer.File) => string | undefined;
+}
+
+export interface SingleFileUpload {
+  // Resolves with the file (or undefined if none was sent); rejects on type/size violations
+  receive(req: Request, res: Response): Promise<Express.Multer.File | undefined>;
+  // The message shown to the uploader for a multer/validation failure, or undefined for other errors
+  errorMessage(error: unknown): string | undefined;
+}
+
+/**
+ * A single-file multipart upload. Files are kept in memory so they can be
+ * checked before anything touches the disk.
+ */
+export function singleFileUpload(options: SingleFileUploadOptions): SingleFileUpload {
+  const middleware = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: options.maxBytes, files: 1 },
+    fileFilter: (_req, file, cb) => {
+      const reason = options.rejectFile?.(file);
+      if (reason) {
+        return cb(new UploadError(reason));
+      }
+      cb(null, true);
+    },
+  }).single(options.field);
+
+  return {
+    receive(req, res) {
+      return new Promise((resolve, reject) => {
+        middleware(req, res, (error?: unknown) => {
+          if (error) return reject(error);
+          resolve(req.file);
+        });
+      });
+    },
+
+    errorMessage(error) {
+      if (error instanceof multer.MulterError) {
+        return error.code === "LIMIT_FILE_SIZE" ? options.tooLargeMessage : options.invalidMessage;
+      }
+      if (error instanceof UploadError) {
+        return error.message;
+      }
+      return undefined;
+    },
+  };
+}
@@ -0,0 +1,126 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import sharp from "sharp";
+import { singleFileUpload, UploadError } from "./file-uploads";
+
+export const ASSETS_DIR = path.join(process.cwd(), "attached_assets");
+const UPLOADS_DIR = path.join(ASSETS_DIR, "uploads");
+
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const ALLOWED_MIME_TYPES = ["image/jpeg", "image/png", "image/webp"];
+const ALLOWED_FORMATS = ["jpeg", "png", "webp"];
+const MAX_DIMENSION = 1600; // Longest edge kept for the full-size image
+export const THUMBNAIL_SIZES = [160, 480] as const;
+export type ThumbnailSize = typeof THUMBNAIL_SIZES[number];
+
+export interface StoredImage {
+  imageUrl: string; // Public path of the full-size image, e.g. "/assets/uploads/<hash>.webp"
+  thumbnails: Record<ThumbnailSize, string>;
+  width: number;
+  height: number;
+}
+
+export class ImageUploadError extends UploadError {}
+
+const imageUpload = singleFileUpload({
+  field: "image",
+  maxBytes: MAX_IMAGE_BYTES,
+  tooLargeMessage: `Image must be ${MAX_IMAGE_BYTES / (1024 * 1024)}MB or smaller`,
+  invalidMessage: "Invalid image upload",
+  rejectFile: file => ALLOWED_MIME_TYPES.includes(file.mimetype) ? undefined : "Only JPEG, PNG or WebP images are allowed",
+});
+
+/**
+ * Parse a multipart request with an "image" field
+ */
+export const receiveImageUpload = imageUpload.receive;
+
+/**
+ * Turn a multer/validation failure into the message shown to the uploader
+ */
+export const uploadErrorMessage = imageUpload.errorMessage;
+
+function uploadFileName(hash: string, size?: ThumbnailSize): string {
+  return `${hash}${size ? `-${size}` : ""}.webp`;
+}
+
+function uploadPath(hash: string, size?: ThumbnailSize): string {
+  return `/assets/uploads/${uploadFileName(hash, size)}`;
+}
+
+async function fileExists(file: string): Promise<boolean> {
+  try {
+    await fs.access(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate an uploaded image by decoding it (the declared MIME type is not
+ * trusted), then store a WebP copy and thumbnails under a content-hashed
+ * name. Uploading the same bytes twice reuses the stored files.
+ */
+export async function storeUploadedImage(buffer: Buffer): Promise<StoredImage> {
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(buffer).metadata();
+  } catch {
+    throw new ImageUploadError("File is not a valid image");
+  }
+  if (!metadata.format || !ALLOWED_FORMATS.includes(metadata.format) || !metadata.width || !metadata.height) {
+    throw new ImageUploadError("Only JPEG, PNG or WebP images are allowed");
+  }
+
+  const hash = createHash("sha256").update(buffer).digest("hex").slice(0, 20);
+  await fs.mkdir(UPLOADS_DIR, { recursive: true });
+
+  // rotate() applies the EXIF orientation; re-encoding drops the rest of the metadata
+  const variants: Array<{ size?: ThumbnailSize; edge: number }> = [
+    { edge: MAX_DIMENSION },
+    ...THUMBNAIL_SIZES.map(size => ({ size, edge: size })),
+  ];
+  let stored: sharp.OutputInfo | undefined;
+  for (const { size, edge } of variants) {
+    const file = path.join(UPLOADS_DIR, uploadFileName(hash, size));
+    if (await fileExists(file)) continue;
+    const info = await sharp(buffer)
+      .rotate()
+      .resize(edge, edge, size ? { fit: "cover" } : { fit: "inside", withoutEnlargement: true })
+      .webp({ quality: 82 })
+      .toFile(file);
+    if (!size) stored = info;
+  }
+
+  const full = stored ?? await sharp(path.join(UPLOADS_DIR, uploadFileName(hash))).metadata();
+  return {
+    imageUrl: uploadPath(hash),
+    thumbnails: {
+      160: uploadPath(hash, 160),
+      480: uploadPath(hash, 480),
+    },
+    width: full.width!,
+    height: full.height!,
+  };
+}
+
+/**
+ * Public URL for a stored imageUrl. Seeded listings hold a bare filename from
+ * attached_assets/generated_images; uploads hold an /assets/uploads path and
+ * have square thumbnails.
+ */
+export function imageSrc(imageUrl: string | null | undefined, size?: ThumbnailSize): string | undefined {
+  if (!imageUrl) return undefined;
+  if (!imageUrl.startsWith("/")) return `/assets/generated_images/${imageUrl}`;
+  const upload = /^\/assets\/uploads\/([0-9a-f]+)\.webp$/.exec(imageUrl);
+  return upload && size ? uploadPath(upload[1], size) : imageUrl;
+}
+
+/**
+ * Content-hashed uploads never change, so they can be cached forever
+ */
+export function isImmutableAsset(requestPath: string): boolean {
+  return /^\/uploads\/[0-9a-f]+(-\d+)?\.webp$/.test(requestPath);
+}
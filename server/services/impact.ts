@@ -0,0 +1,106 @@
+import {
+  foodCategories,
+  foodCategoryLabels,
+  type FoodCategory,
+  type FoodCategoryFactor,
+  type FoodListing,
+  type InsertImpactEntry,
+  type Reservation,
+} from "@shared/schema";
+import type { CategoryImpactTotals, ImpactTotals } from "../storage";
+
+export interface CategoryFactor {
+  category: FoodCategory;
+  label: string;
+  kgPerPortion: number;
+  co2eKgPerKg: number;
+  customised: boolean; // Overridden by an admin rather than the built-in default
+}
+
+// Rough defaults per portion and per kg of food not wasted; admins can tune them
+const DEFAULT_FACTORS: Record<FoodCategory, { kgPerPortion: number; co2eKgPerKg: number }> = {
+  bakery: { kgPerPortion: 0.25, co2eKgPerKg: 1.6 },
+  rice_dishes: { kgPerPortion: 0.45, co2eKgPerKg: 2.7 },
+  noodles: { kgPerPortion: 0.45, co2eKgPerKg: 2.2 },
+  dim_sum: { kgPerPortion: 0.3, co2eKgPerKg: 3.5 },
+  salads: { kgPerPortion: 0.3, co2eKgPerKg: 0.9 },
+  meat: { kgPerPortion: 0.4, co2eKgPerKg: 9.0 },
+  seafood: { kgPerPortion: 0.35, co2eKgPerKg: 6.0 },
+  desserts: { kgPerPortion: 0.2, co2eKgPerKg: 2.5 },
+  other: { kgPerPortion: 0.35, co2eKgPerKg: 2.5 },
+};
+
+/**
+ * The full factor table: admin overrides where stored, defaults otherwise
+ */
+export function categoryFactorTable(overrides: FoodCategoryFactor[]): CategoryFactor[] {
+  return foodCategories.map(category => {
+    const override = overrides.find(o => o.category === category);
+    return {
+      category,
+      label: foodCategoryLabels[category],
+      kgPerPortion: override ? parseFloat(override.kgPerPortion) : DEFAULT_FACTORS[category].kgPerPortion,
+      co2eKgPerKg: override ? parseFloat(override.co2eKgPerKg) : DEFAULT_FACTORS[category].co2eKgPerKg,
+      customised: !!override,
+    };
+  });
+}
+
+/**
+ * Ledger entry for a reservation that is being collected. Money saved is
+ * measured against the listing's original price at the unit price the
+ * customer locked in; weight and CO2e use the listing category's factors.
+ * Charity bulk claims are flagged as donations.
+ */
+export function buildImpactEntry(
+  reservation: Reservation,
+  listing: FoodListing,
+  factors: CategoryFactor[],
+  donation = false,
+): InsertImpactEntry {
+  const factor = factors.find(f => f.category === listing.category)
+    ?? factors.find(f => f.category === "other")!;
+  const savedPerMeal = Math.max(0, parseFloat(listing.originalPrice) - parseFloat(reservation.unitPrice));
+  const foodKg = reservation.quantity * factor.kgPerPortion;
+  return {
+    reservationId: reservation.id,
+    userId: reservation.userId,
+    vendorId: listing.vendorId,
+    listingId: listing.id,
+    category: factor.category,
+    meals: reservation.quantity,
+    moneySaved: (savedPerMeal * reservation.quantity).toFixed(2),
+    foodKg: foodKg.toFixed(2),
+    co2eKg: (foodKg * factor.co2eKgPerKg).toFixed(2),
+    donation,
+  };
+}
+
+/**
+ * Round totals for display and JSON responses
+ */
+export function formatImpactTotals(totals: ImpactTotals) {
+  return {
+    rescues: totals.rescues,
+    mealsRescued: totals.meals,
+    totalSaved: totals.moneySaved.toFixed(2),
+    foodDiverted: totals.foodKg.toFixed(1),
+    co2Reduced: totals.co2eKg.toFixed(1),
+  };
+}
+
+/**
+ * Totals plus a per-category breakdown, largest CO2e first
+ */
+export function formatImpactReport(totals: ImpactTotals, byCategory: CategoryImpactTotals[]) {
+  return {
+    ...formatImpactTotals(totals),
+    byCategory: [...byCategory]
+      .sort((a, b) => b.co2eKg - a.co2eKg)
+      .map(row => ({
+        category: row.category,
+        label: foodCategoryLabels[row.category] ?? row.category,
+        ...formatImpactTotals(row),
+      })),
+  };
+}
@@ -0,0 +1,16 @@
+/**
+ * Start a background job: runs `job` once immediately, then every `intervalMs`.
+ * Failures are logged as "Error <label>:" and don't stop later runs.
+ */
+export function startIntervalJob(label: string, job: () => Promise<unknown>, intervalMs: number): NodeJS.Timeout {
+  const run = () => {
+    job().catch((error) => {
+      console.error(`Error ${label}:`, error);
+    });
+  };
+
+  run();
+  const timer = setInterval(run, intervalMs);
+  timer.unref(); // Don't keep the process alive just for background jobs
+  return timer;
+}
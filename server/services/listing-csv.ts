@@ -0,0 +1,212 @@
+import { insertFoodListingSchema, type FoodListing, type InsertFoodListing, type Reservation } from "@shared/schema";
+import { formatSingaporeDateTime } from "@shared/sg-time";
+import { singleFileUpload } from "./file-uploads";
+
+export const MAX_CSV_BYTES = 1024 * 1024;
+export const MAX_IMPORT_ROWS = 500;
+
+// Columns read on import, in the order they are written on export
+export const LISTING_CSV_COLUMNS = [
+  "title",
+  "description",
+  "category",
+  "originalPrice",
+  "discountedPrice",
+  "quantity",
+  "pickupTimeStart",
+  "pickupTimeEnd",
+  "imageUrl",
+  "dietaryTags",
+] as const;
+type ListingCsvColumn = typeof LISTING_CSV_COLUMNS[number];
+
+// May be left out of the file entirely; the schema defaults apply
+const OPTIONAL_COLUMNS: ListingCsvColumn[] = ["category", "dietaryTags"];
+
+export interface CsvRowError {
+  row: number; // Spreadsheet row number; the header is row 1
+  field?: string;
+  message: string;
+}
+
+export interface ParsedListingRow {
+  row: number;
+  listing: InsertFoodListing;
+}
+
+const csvUpload = singleFileUpload({
+  field: "file",
+  maxBytes: MAX_CSV_BYTES,
+  tooLargeMessage: `CSV file must be ${MAX_CSV_BYTES / 1024}KB or smaller`,
+  invalidMessage: "Invalid CSV upload",
+  // Browsers disagree on the MIME type of .csv files, so go by the extension
+  rejectFile: file => file.originalname.toLowerCase().endsWith(".csv") ? undefined : "Only .csv files are allowed",
+});
+
+/**
+ * Parse a multipart request with a "file" field
+ */
+export const receiveCsvUpload = csvUpload.receive;
+
+/**
+ * Turn a multer/validation failure into the message shown to the uploader
+ */
+export const csvUploadErrorMessage = csvUpload.errorMessage;
+
+/**
+ * Split RFC 4180 CSV text into records. Quoted fields may contain commas,
+ * doubled quotes and line breaks; blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, ""); // Excel writes a byte-order mark
+
+  const endRecord = () => {
+    record.push(field);
+    if (record.length > 1 || record[0] !== "") records.push(record);
+    record = [];
+    field = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === "") {
+      quoted = true;
+    } else if (ch === ",") {
+      record.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      endRecord();
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || record.length > 0) endRecord();
+  return records;
+}
+
+/**
+ * Validate every row of a listing CSV for `vendorId`. Header names are
+ * matched case-insensitively; unknown columns (such as the id and history
+ * columns in an export) are ignored, so an export can be edited and re-imported
+ * once any ended pickup windows are moved to the future.
+ * Dietary tags are separated by semicolons.
+ */
+export function parseListingCsv(text: string, vendorId: string): { rows: ParsedListingRow[]; errors: CsvRowError[] } {
+  const [header, ...records] = parseCsv(text);
+  if (!header) {
+    return { rows: [], errors: [{ row: 1, message: "CSV file is empty" }] };
+  }
+
+  const columnIndex = new Map<ListingCsvColumn, number>();
+  header.forEach((name, index) => {
+    const column = LISTING_CSV_COLUMNS.find(c => c.toLowerCase() === name.trim().toLowerCase());
+    if (column && !columnIndex.has(column)) columnIndex.set(column, index);
+  });
+  const missing = LISTING_CSV_COLUMNS.filter(c => !columnIndex.has(c) && !OPTIONAL_COLUMNS.includes(c));
+  if (missing.length > 0) {
+    return { rows: [], errors: [{ row: 1, message: `Missing column(s): ${missing.join(", ")}` }] };
+  }
+  if (records.length === 0) {
+    return { rows: [], errors: [{ row: 2, message: "CSV file has no listings" }] };
+  }
+  if (records.length > MAX_IMPORT_ROWS) {
+    return { rows: [], errors: [{ row: 1, message: `At most ${MAX_IMPORT_ROWS} listings can be imported at once` }] };
+  }
+
+  const rows: ParsedListingRow[] = [];
+  const errors: CsvRowError[] = [];
+  records.forEach((record, index) => {
+    const row = index + 2;
+    const cell = (column: ListingCsvColumn) => {
+      const i = columnIndex.get(column);
+      return i === undefined ? undefined : (record[i] ?? "").trim();
+    };
+    const quantity = cell("quantity");
+    const category = cell("category");
+    const dietaryTags = cell("dietaryTags");
+
+    const parsed = insertFoodListingSchema.safeParse({
+      vendorId,
+      title: cell("title"),
+      description: cell("description"),
+      category: category || undefined,
+      originalPrice: cell("originalPrice"),
+      discountedPrice: cell("discountedPrice"),
+      quantity: quantity && /^\d+$/.test(quantity) ? parseInt(quantity, 10) : quantity,
+      pickupTimeStart: cell("pickupTimeStart"),
+      pickupTimeEnd: cell("pickupTimeEnd"),
+      imageUrl: cell("imageUrl"),
+      dietaryTags: dietaryTags ? dietaryTags.split(";").map(t => t.trim()).filter(Boolean) : undefined,
+    });
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        errors.push({ row, field: String(issue.path[0] ?? ""), message: issue.message });
+      }
+      return;
+    }
+    rows.push({ row, listing: parsed.data });
+  });
+  return { rows, errors };
+}
+
+function csvField(value: string | number | boolean | null | undefined): string {
+  let text = value == null ? "" : String(value);
+  // Stop spreadsheets from evaluating cells that look like formulas
+  if (/^[=+\-@]/.test(text) && !/^-?\d/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvLine(values: Array<string | number | boolean | null | undefined>): string {
+  return values.map(csvField).join(",");
+}
+
+/**
+ * A vendor's listing history as CSV, newest first. Times are Singapore
+ * wall-clock; claimed and collected portions come from the reservations.
+ * Rows whose pickup window has ended are flagged `pickupEnded`: the import
+ * rejects past windows, so those need new pickup times before re-importing.
+ */
+export function listingsToCsv(listings: FoodListing[], reservations: Reservation[], now: Date = new Date()): string {
+  const lines = [csvLine(["id", ...LISTING_CSV_COLUMNS, "available", "pickupEnded", "portionsClaimed", "portionsCollected", "createdAt"])];
+  const sorted = [...listings].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+  for (const listing of sorted) {
+    const forListing = reservations.filter(r => r.listingId === listing.id);
+    const portions = (statuses: string[]) => forListing
+      .filter(r => statuses.includes(r.status))
+      .reduce((sum, r) => sum + r.quantity, 0);
+    lines.push(csvLine([
+      listing.id,
+      listing.title,
+      listing.description,
+      listing.category,
+      listing.originalPrice,
+      listing.discountedPrice,
+      listing.quantity,
+      formatSingaporeDateTime(listing.pickupTimeStart),
+      formatSingaporeDateTime(listing.pickupTimeEnd),
+      listing.imageUrl,
+      listing.dietaryTags.join(";"),
+      listing.available,
+      listing.pickupTimeEnd.getTime() <= now.getTime(),
+      portions(["reserved", "collected", "no_show"]),
+      portions(["collected"]),
+      formatSingaporeDateTime(listing.createdAt),
+    ]));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
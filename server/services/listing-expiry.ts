@@ -0,0 +1,24 @@
+import { storage } from "../storage";
+import { log } from "../vite";
+import { startIntervalJob } from "./interval-jobs";
+
+const EXPIRY_INTERVAL_MS = 60 * 1000; // Check once a minute
+
+/**
+ * Run one expiry pass: hide listings whose pickup window has closed and
+ * mark their uncollected reservations as no-shows
+ */
+export async function expireEndedListings(now: Date = new Date()) {
+  const result = await storage.expireEndedListings(now);
+  if (result.expiredListings > 0 || result.noShowReservations > 0) {
+    log(`expired ${result.expiredListings} listing(s), ${result.noShowReservations} no-show reservation(s)`, "expiry");
+  }
+  return result;
+}
+
+/**
+ * Start the background expiry job. Runs once immediately, then every minute.
+ */
+export function startListingExpiryJob(): NodeJS.Timeout {
+  return startIntervalJob("expiring food listings", () => expireEndedListings(), EXPIRY_INTERVAL_MS);
+}
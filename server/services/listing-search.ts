@@ -0,0 +1,125 @@
+import type { FoodListing, Vendor, VendorHoursException, CampusBlock, FoodListingSearch } from "@shared/schema";
+import { withCurrentPrice, type PricedListing } from "./pricing";
+import { calculateDistance } from "./recommendations";
+import { satisfiesDietaryRestrictions } from "./dietary";
+import { isVendorOpenAt } from "./opening-hours";
+
+// Average walking pace, with straight-line distance stretched for paths around buildings
+const WALKING_METRES_PER_MINUTE = 80;
+const WALKING_DETOUR_FACTOR = 1.3;
+
+export interface SearchedListing extends PricedListing {
+  vendor?: Vendor;
+  discountPercent: number; // Current discount off the original price
+  distance?: number; // Metres from the requested campus block, when both have coordinates
+  walkingMinutes?: number; // Estimated walk for that distance
+}
+
+export interface ListingSearchResult {
+  listings: SearchedListing[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+function distanceFromBlock(vendor: Vendor | undefined, block: CampusBlock | undefined): number | undefined {
+  if (!vendor?.latitude || !vendor.longitude || !block?.latitude || !block.longitude) {
+    return undefined;
+  }
+  return calculateDistance(
+    parseFloat(block.latitude),
+    parseFloat(block.longitude),
+    parseFloat(vendor.latitude),
+    parseFloat(vendor.longitude),
+  );
+}
+
+/**
+ * Estimated minutes to walk a straight-line distance in metres (at least 1)
+ */
+export function walkingMinutes(distance: number): number {
+  return Math.max(1, Math.round((distance * WALKING_DETOUR_FACTOR) / WALKING_METRES_PER_MINUTE));
+}
+
+function compareListings(sort: FoodListingSearch["sort"]) {
+  const price = (l: SearchedListing) => parseFloat(l.currentPrice);
+  switch (sort) {
+    case "price_asc":
+      return (a: SearchedListing, b: SearchedListing) => price(a) - price(b);
+    case "price_desc":
+      return (a: SearchedListing, b: SearchedListing) => price(b) - price(a);
+    case "discount":
+      return (a: SearchedListing, b: SearchedListing) => b.discountPercent - a.discountPercent;
+    case "ending_soon":
+      return (a: SearchedListing, b: SearchedListing) => a.pickupTimeEnd.getTime() - b.pickupTimeEnd.getTime();
+    case "distance":
+      // Vendors without coordinates go last
+      return (a: SearchedListing, b: SearchedListing) =>
+        (a.distance ?? Infinity) - (b.distance ?? Infinity);
+    case "newest":
+    default:
+      return (a: SearchedListing, b: SearchedListing) => b.createdAt.getTime() - a.createdAt.getTime();
+  }
+}
+
+/**
+ * Filter, sort and paginate food listings. Prices and discounts are
+ * evaluated at `now` using each listing's dynamic pricing curve; the
+ * open-now/open-at filters use the vendors' hours and `hoursExceptions`.
+ */
+export function searchFoodListings(
+  listings: FoodListing[],
+  vendors: Vendor[],
+  params: FoodListingSearch,
+  block?: CampusBlock,
+  hoursExceptions: VendorHoursException[] = [],
+  now: Date = new Date(),
+): ListingSearchResult {
+  const term = params.q?.toLowerCase();
+  const openAt = params.openAt ?? (params.openNow ? now : undefined);
+
+  const matches = listings
+    .map((listing): SearchedListing => {
+      const priced = withCurrentPrice(listing, now);
+      const vendor = vendors.find(v => v.id === listing.vendorId);
+      const original = parseFloat(listing.originalPrice);
+      const distance = distanceFromBlock(vendor, block);
+      return {
+        ...priced,
+        vendor,
+        discountPercent: original > 0 ? Math.round((1 - parseFloat(priced.currentPrice) / original) * 100) : 0,
+        distance: distance === undefined ? undefined : Math.round(distance),
+        walkingMinutes: distance === undefined ? undefined : walkingMinutes(distance),
+      };
+    })
+    .filter(listing => {
+      if (params.available !== undefined && listing.available !== params.available) return false;
+      if (term) {
+        const haystack = `${listing.title} ${listing.description} ${listing.vendor?.name ?? ""}`.toLowerCase();
+        if (!haystack.includes(term)) return false;
+      }
+      if (params.vendorType && listing.vendor?.type !== params.vendorType) return false;
+      if (params.diet && !satisfiesDietaryRestrictions(listing.dietaryTags, params.diet)) return false;
+      if (params.maxPrice !== undefined && parseFloat(listing.currentPrice) > params.maxPrice) return false;
+      if (params.minDiscount !== undefined && listing.discountPercent < params.minDiscount) return false;
+      // Overlap: the window must end after pickupFrom and start before pickupTo
+      if (params.pickupFrom && listing.pickupTimeEnd.getTime() <= params.pickupFrom.getTime()) return false;
+      if (params.pickupTo && listing.pickupTimeStart.getTime() >= params.pickupTo.getTime()) return false;
+      if (params.maxDistance !== undefined && (listing.distance === undefined || listing.distance > params.maxDistance)) {
+        return false;
+      }
+      if (openAt && (!listing.vendor || !isVendorOpenAt(listing.vendor, hoursExceptions, openAt))) return false;
+      return true;
+    })
+    .sort(compareListings(params.sort));
+
+  const start = (params.page - 1) * params.pageSize;
+  return {
+    listings: matches.slice(start, start + params.pageSize),
+    total: matches.length,
+    page: params.page,
+    pageSize: params.pageSize,
+    totalPages: Math.max(1, Math.ceil(matches.length / params.pageSize)),
+  };
+}
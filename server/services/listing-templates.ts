@@ -0,0 +1,134 @@
+import type { InsertFoodListing, ListingTemplate, ListingTemplateDay } from "@shared/schema";
+import {
+  addDaysToDateString,
+  singaporeDateString,
+  singaporeDateTimeAt,
+  singaporeWeekday,
+} from "@shared/sg-time";
+import { storage } from "../storage";
+import { isWithinOpeningHours } from "./opening-hours";
+import { log } from "../vite";
+import { startIntervalJob } from "./interval-jobs";
+
+const SCHEDULER_INTERVAL_MS = 60 * 1000; // Check once a minute
+
+export interface TemplateDaySchedule {
+  date: string; // Singapore date, "YYYY-MM-DD"
+  weekday: number; // 0 = Sunday
+  quantity: number;
+  adjusted: boolean; // Quantity differs from the template default for this date
+  skipped: boolean;
+  listingId: string | null;
+}
+
+/**
+ * Pickup window for a template on a Singapore date
+ */
+export function templateWindow(template: ListingTemplate, date: string) {
+  return {
+    pickupTimeStart: singaporeDateTimeAt(date, template.pickupStart),
+    pickupTimeEnd: singaporeDateTimeAt(date, template.pickupEnd),
+  };
+}
+
+/**
+ * The listing a template publishes on a date
+ */
+export function templateListing(template: ListingTemplate, date: string, quantity: number): InsertFoodListing {
+  return {
+    vendorId: template.vendorId,
+    title: template.title,
+    description: template.description,
+    category: template.category,
+    originalPrice: template.originalPrice,
+    discountedPrice: template.discountedPrice,
+    quantity,
+    imageUrl: template.imageUrl,
+    pricingCurve: template.pricingCurve,
+    dietaryTags: template.dietaryTags,
+    ...templateWindow(template, date),
+  };
+}
+
+/**
+ * The template's next `count` scheduled dates from today (Singapore time),
+ * merged with any per-date adjustments
+ */
+export function upcomingTemplateDays(
+  template: ListingTemplate,
+  days: ListingTemplateDay[],
+  now: Date = new Date(),
+  count = 7,
+): TemplateDaySchedule[] {
+  const schedule: TemplateDaySchedule[] = [];
+  const today = singaporeDateString(now);
+  // Two weeks is enough to find `count` dates for any non-empty set of weekdays up to 7
+  for (let offset = 0; offset < 14 && schedule.length < count; offset++) {
+    const date = addDaysToDateString(today, offset);
+    const weekday = singaporeWeekday(date);
+    if (!template.daysOfWeek.includes(weekday)) continue;
+    // Today's window may already have closed
+    if (templateWindow(template, date).pickupTimeEnd.getTime() <= now.getTime()) continue;
+
+    const day = days.find(d => d.date === date);
+    schedule.push({
+      date,
+      weekday,
+      quantity: day?.quantity ?? template.defaultQuantity,
+      adjusted: day?.quantity != null && day.quantity !== template.defaultQuantity,
+      skipped: day?.skipped ?? false,
+      listingId: day?.listingId ?? null,
+    });
+  }
+  return schedule;
+}
+
+/**
+ * Whether a template is due to publish today's listing at `now`: today is one of
+ * its days and we are between (pickup start - lead time) and pickup end
+ */
+export function isTemplateDue(template: ListingTemplate, now: Date = new Date()): boolean {
+  const today = singaporeDateString(now);
+  if (!template.daysOfWeek.includes(singaporeWeekday(today))) return false;
+
+  const { pickupTimeStart, pickupTimeEnd } = templateWindow(template, today);
+  const publishAt = pickupTimeStart.getTime() - template.publishLeadMinutes * 60 * 1000;
+  return publishAt <= now.getTime() && now.getTime() < pickupTimeEnd.getTime();
+}
+
+/**
+ * Run one scheduler pass: publish today's listing for every active template
+ * that is due and hasn't been published or skipped yet. Nothing is published
+ * on days the vendor is closed for (e.g. a public holiday).
+ */
+export async function publishDueTemplates(now: Date = new Date()) {
+  const today = singaporeDateString(now);
+  let published = 0;
+
+  for (const template of await storage.getActiveListingTemplates()) {
+    if (!isTemplateDue(template, now)) continue;
+
+    const vendor = await storage.getVendor(template.vendorId);
+    if (!vendor) continue;
+    const { pickupTimeStart, pickupTimeEnd } = templateWindow(template, today);
+    const exceptions = await storage.getVendorHoursExceptions(vendor.id, addDaysToDateString(today, -1));
+    if (!isWithinOpeningHours(vendor, exceptions, pickupTimeStart, pickupTimeEnd)) continue;
+
+    const [day] = await storage.getListingTemplateDays(template.id, today);
+    const quantity = day?.date === today && day.quantity != null ? day.quantity : template.defaultQuantity;
+    const listing = await storage.publishListingTemplateDay(template.id, today, templateListing(template, today, quantity));
+    if (listing) published++;
+  }
+
+  if (published > 0) {
+    log(`published ${published} recurring listing(s)`, "scheduler");
+  }
+  return published;
+}
+
+/**
+ * Start the recurring listing scheduler. Runs once immediately, then every minute.
+ */
+export function startListingSchedulerJob(): NodeJS.Timeout {
+  return startIntervalJob("publishing recurring listings", () => publishDueTemplates(), SCHEDULER_INTERVAL_MS);
+}
@@ -0,0 +1,99 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type { IncomingHttpHeaders } from "http";
+import {
+  PAYMENT_INTENT_TTL_MINUTES,
+  PaymentWebhookError,
+  type PaymentProvider,
+  type PaymentWebhookEvent,
+} from "./payments";
+
+const SIGNATURE_HEADER = "x-mock-signature";
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60; // Reject replays of old webhooks
+const EVENT_TYPES = ["payment.succeeded", "payment.failed", "refund.succeeded"];
+
+function sign(secret: string, timestamp: number, rawBody: Buffer): string {
+  return createHmac("sha256", secret).update(`${timestamp}.`).update(rawBody).digest("hex");
+}
+
+/**
+ * Local stand-in for a PayNow/card gateway. Intents are never charged; a
+ * payment completes when its webhook is simulated. Webhooks carry a
+ * `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">` signature header,
+ * the same scheme most real gateways use.
+ */
+export function createMockPaymentProvider(webhookSecret: string): PaymentProvider {
+  return {
+    name: "mock",
+
+    async createIntent(request) {
+      const providerPaymentId = `mock_pi_${randomBytes(12).toString("hex")}`;
+      if (request.method === "paynow") {
+        return {
+          providerPaymentId,
+          nextAction: {
+            type: "paynow_qr",
+            qrPayload: `MOCKPAYNOW|${providerPaymentId}|${request.currency}|${request.amount}|${request.reference}`,
+            expiresAt: new Date(Date.now() + PAYMENT_INTENT_TTL_MINUTES * 60 * 1000).toISOString(),
+          },
+        };
+      }
+      return {
+        providerPaymentId,
+        nextAction: { type: "card_checkout", clientSecret: `${providerPaymentId}_secret_${randomBytes(8).toString("hex")}` },
+      };
+    },
+
+    async refund(providerPaymentId) {
+      if (!providerPaymentId.startsWith("mock_pi_")) {
+        throw new Error(`Unknown mock payment: ${providerPaymentId}`);
+      }
+    },
+
+    async cancelIntent(providerPaymentId) {
+      if (!providerPaymentId.startsWith("mock_pi_")) {
+        throw new Error(`Unknown mock payment: ${providerPaymentId}`);
+      }
+      return true; // Nothing is charged until a webhook is simulated
+    },
+
+    parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentWebhookEvent {
+      const header = headers[SIGNATURE_HEADER];
+      const parts = Object.fromEntries(
+        (typeof header === "string" ? header : "").split(",").map(part => part.trim().split("=", 2)),
+      );
+      const timestamp = Number(parts.t);
+      if (!Number.isInteger(timestamp) || !parts.v1) {
+        throw new PaymentWebhookError("Missing webhook signature");
+      }
+      if (Math.abs(Date.now() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+        throw new PaymentWebhookError("Webhook signature has expired");
+      }
+
+      const expected = Buffer.from(sign(webhookSecret, timestamp, rawBody), "hex");
+      const received = Buffer.from(parts.v1, "hex");
+      if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+        throw new PaymentWebhookError("Invalid webhook signature");
+      }
+
+      let event: Partial<PaymentWebhookEvent>;
+      try {
+        event = JSON.parse(rawBody.toString("utf8"));
+      } catch {
+        throw new PaymentWebhookError("Invalid webhook payload");
+      }
+      if (!event.type || !EVENT_TYPES.includes(event.type) || typeof event.providerPaymentId !== "string") {
+        throw new PaymentWebhookError("Invalid webhook payload");
+      }
+      return { type: event.type, providerPaymentId: event.providerPaymentId };
+    },
+
+    simulateWebhook(event) {
+      const rawBody = Buffer.from(JSON.stringify(event));
+      const timestamp = Math.floor(Date.now() / 1000);
+      return {
+        rawBody,
+        headers: { [SIGNATURE_HEADER]: `t=${timestamp},v1=${sign(webhookSecret, timestamp, rawBody)}` },
+      };
+    },
+  };
+}
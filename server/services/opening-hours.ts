@@ -0,0 +1,129 @@
+import { weekdayLabels, type OpeningPeriod, type Vendor, type VendorHoursException } from "@shared/schema";
+import {
+  addDaysToDateString,
+  singaporeDateString,
+  singaporeDateTimeAt,
+  singaporeWeekday,
+} from "@shared/sg-time";
+
+interface OpenInterval {
+  start: Date;
+  end: Date;
+}
+
+function interval(date: string, open: string, close: string): OpenInterval {
+  return {
+    start: singaporeDateTimeAt(date, open),
+    end: close === "24:00" ? singaporeDateTimeAt(addDaysToDateString(date, 1), "00:00") : singaporeDateTimeAt(date, close),
+  };
+}
+
+/**
+ * Open intervals on one Singapore date: the date's exception if there is one, otherwise the weekly hours
+ */
+function intervalsOn(vendor: Vendor, exceptions: VendorHoursException[], date: string): OpenInterval[] {
+  const exception = exceptions.find(e => e.vendorId === vendor.id && e.date === date);
+  if (exception) {
+    return exception.closed || !exception.open || !exception.close ? [] : [interval(date, exception.open, exception.close)];
+  }
+  const weekday = singaporeWeekday(date);
+  return vendor.weeklyHours.filter(p => p.day === weekday).map(p => interval(date, p.open, p.close));
+}
+
+/**
+ * Open intervals covering [from, to], with back-to-back periods (e.g. "until 24:00"
+ * followed by "from 00:00") merged so windows spanning midnight are handled
+ */
+function openIntervals(vendor: Vendor, exceptions: VendorHoursException[], from: Date, to: Date): OpenInterval[] {
+  const intervals: OpenInterval[] = [];
+  const last = singaporeDateString(to);
+  // Start a day early: the previous day's hours may run until midnight
+  for (let date = addDaysToDateString(singaporeDateString(from), -1); date <= last; date = addDaysToDateString(date, 1)) {
+    intervals.push(...intervalsOn(vendor, exceptions, date));
+  }
+  intervals.sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  const merged: OpenInterval[] = [];
+  for (const next of intervals) {
+    const previous = merged[merged.length - 1];
+    if (previous && next.start.getTime() <= previous.end.getTime()) {
+      if (next.end.getTime() > previous.end.getTime()) previous.end = next.end;
+    } else {
+      merged.push({ ...next });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Vendors without weekly hours haven't set them up yet; their hours aren't enforced
+ */
+export function hasOpeningHours(vendor: Vendor): boolean {
+  return vendor.weeklyHours.length > 0;
+}
+
+/**
+ * Whether the vendor is open at `at`. False for vendors whose hours aren't set.
+ */
+export function isVendorOpenAt(vendor: Vendor, exceptions: VendorHoursException[], at: Date): boolean {
+  return hasOpeningHours(vendor) && openIntervals(vendor, exceptions, at, at)
+    .some(i => i.start.getTime() <= at.getTime() && at.getTime() < i.end.getTime());
+}
+
+/**
+ * Whether [start, end] falls within a single stretch of opening hours.
+ * Always true for vendors whose hours aren't set.
+ */
+export function isWithinOpeningHours(vendor: Vendor, exceptions: VendorHoursException[], start: Date, end: Date): boolean {
+  return !hasOpeningHours(vendor) || openIntervals(vendor, exceptions, start, end)
+    .some(i => i.start.getTime() <= start.getTime() && end.getTime() <= i.end.getTime());
+}
+
+/**
+ * Weekly hours for display, Monday first, with consecutive days that share
+ * the same hours combined: ["Mon-Fri 07:00-20:00", "Sat 08:00-14:00", "Sun Closed"]
+ */
+export function formatWeeklyHours(weeklyHours: OpeningPeriod[]): string[] {
+  if (weeklyHours.length === 0) return [];
+
+  const hoursOn = (day: number) => weeklyHours
+    .filter(p => p.day === day)
+    .sort((a, b) => a.open.localeCompare(b.open))
+    .map(p => `${p.open}-${p.close}`)
+    .join(", ") || "Closed";
+
+  const groups: Array<{ first: number; last: number; hours: string }> = [];
+  for (const day of [1, 2, 3, 4, 5, 6, 0]) {
+    const hours = hoursOn(day);
+    const group = groups[groups.length - 1];
+    if (group && group.hours === hours) {
+      group.last = day;
+    } else {
+      groups.push({ first: day, last: day, hours });
+    }
+  }
+  return groups.map(g => {
+    const days = g.first === g.last ? weekdayLabels[g.first] : `${weekdayLabels[g.first]}-${weekdayLabels[g.last]}`;
+    return `${days} ${g.hours}`;
+  });
+}
+
+/**
+ * Weekdays (of `daysOfWeek`) whose weekly hours don't cover a daily
+ * "HH:mm"-"HH:mm" pickup window, ignoring one-off exceptions
+ */
+export function weekdaysOutsideHours(
+  vendor: Vendor,
+  daysOfWeek: number[],
+  pickupStart: string,
+  pickupEnd: string,
+  now: Date = new Date(),
+): number[] {
+  const today = singaporeDateString(now);
+  return daysOfWeek.filter(weekday => {
+    // Any date falling on this weekday will do
+    const offset = (weekday - singaporeWeekday(today) + 7) % 7;
+    const date = addDaysToDateString(today, offset);
+    return !isWithinOpeningHours(vendor, [], singaporeDateTimeAt(date, pickupStart), singaporeDateTimeAt(date, pickupEnd));
+  });
+}
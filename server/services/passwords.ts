@@ -0,0 +1,40 @@
+import { scrypt, scryptSync, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+/**
+ * Hash a password with scrypt and a random salt.
+ * Stored format is "<hex hash>.<hex salt>"
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+/**
+ * Synchronous variant used when seeding in-memory data from a constructor
+ */
+export function hashPasswordSync(password: string): string {
+  const salt = randomBytes(16).toString("hex");
+  const buf = scryptSync(password, salt, KEY_LENGTH);
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+/**
+ * Compare a plain password against a stored hash in constant time.
+ * Returns false for malformed hashes (e.g. legacy placeholder values)
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+
+  const hashedBuf = Buffer.from(hashed, "hex");
+  if (hashedBuf.length !== KEY_LENGTH) return false;
+
+  const suppliedBuf = await scryptAsync(password, salt, KEY_LENGTH);
+  return timingSafeEqual(hashedBuf, suppliedBuf);
+}
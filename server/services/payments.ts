@@ -0,0 +1,221 @@
+import type { IncomingHttpHeaders } from "http";
+import type { Payment, PaymentMethod, PaymentStatus, PaymentSubjectType } from "@shared/schema";
+import { storage } from "../storage";
+import { createMockPaymentProvider } from "./mock-payment-provider";
+import { waitlistOfferExpiry } from "./waitlist";
+
+export interface PaymentIntentRequest {
+  reference: string; // Our reference for the order, e.g. "reservation:<id>"
+  amount: string; // Dollars, e.g. "4.50"
+  currency: string;
+  method: PaymentMethod;
+  description: string;
+}
+
+// What the customer does next to complete the payment
+export type PaymentNextAction =
+  | { type: "paynow_qr"; qrPayload: string; expiresAt: string }
+  | { type: "card_checkout"; clientSecret: string };
+
+export interface CreatedPaymentIntent {
+  providerPaymentId: string;
+  nextAction: PaymentNextAction;
+}
+
+export type PaymentEventType = "payment.succeeded" | "payment.failed" | "refund.succeeded";
+
+export interface PaymentWebhookEvent {
+  type: PaymentEventType;
+  providerPaymentId: string;
+}
+
+export interface SignedWebhook {
+  rawBody: Buffer;
+  headers: IncomingHttpHeaders;
+}
+
+/**
+ * A payment gateway. Routes only talk to this interface, so a real provider
+ * can replace the mock by implementing it and registering it in `paymentProvider()`.
+ */
+export interface PaymentProvider {
+  readonly name: string;
+  createIntent(request: PaymentIntentRequest): Promise<CreatedPaymentIntent>;
+  // Resolves once the provider has accepted the refund
+  refund(providerPaymentId: string, amount: string): Promise<void>;
+  // Stop an intent from being completed. Resolves false if the customer already paid it.
+  cancelIntent(providerPaymentId: string): Promise<boolean>;
+  // Check the signature and decode the event; throws PaymentWebhookError if it can't be trusted
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentWebhookEvent;
+  // Test providers only: a correctly signed webhook as the provider would send it
+  simulateWebhook?(event: PaymentWebhookEvent): SignedWebhook;
+}
+
+export class PaymentWebhookError extends Error {}
+
+// How long a payment intent (e.g. a PayNow QR) can be completed; then it's abandoned
+export const PAYMENT_INTENT_TTL_MINUTES = 15;
+
+// Something the customer is asked to pay for
+export interface PayableSubject {
+  type: PaymentSubjectType;
+  id: string;
+  userId: string;
+  amount: string;
+  paymentStatus: PaymentStatus;
+  open: boolean; // Still awaiting pickup or delivery; closed orders can't be paid for
+  description: string;
+}
+
+let provider: PaymentProvider | undefined;
+
+/**
+ * The configured provider (PAYMENT_PROVIDER, default "mock"). Production needs its own
+ * PAYMENT_WEBHOOK_SECRET and a real provider: the mock, or the public fallback secret,
+ * would let anyone sign a webhook that marks orders paid. Called at startup so bad
+ * settings stop the server instead of failing the first payment.
+ */
+export function paymentProvider(): PaymentProvider {
+  if (!provider) {
+    const production = process.env.NODE_ENV === "production";
+    if (production && !process.env.PAYMENT_WEBHOOK_SECRET) {
+      throw new Error("PAYMENT_WEBHOOK_SECRET must be set in production");
+    }
+    const name = process.env.PAYMENT_PROVIDER ?? "mock";
+    switch (name) {
+      case "mock":
+        if (production) {
+          throw new Error("The mock payment provider can't be used in production; set PAYMENT_PROVIDER");
+        }
+        provider = createMockPaymentProvider(process.env.PAYMENT_WEBHOOK_SECRET ?? "mock-webhook-secret");
+        break;
+      default:
+        throw new Error(`Unknown payment provider: ${name}`);
+    }
+  }
+  return provider;
+}
+
+/**
+ * Swap the provider at runtime (e.g. a real gateway configured at startup)
+ */
+export function setPaymentProvider(next: PaymentProvider) {
+  provider = next;
+}
+
+/**
+ * Load a reservation or delivery request with the amount owed, worked out on the server
+ */
+export async function getPayableSubject(type: PaymentSubjectType, id: string): Promise<PayableSubject | undefined> {
+  if (type === "reservation") {
+    const reservation = await storage.getReservation(id);
+    if (!reservation) return undefined;
+    const listing = await storage.getFoodListing(reservation.listingId);
+    return {
+      type,
+      id,
+      userId: reservation.userId,
+      amount: reservation.totalPrice,
+      paymentStatus: reservation.paymentStatus,
+      open: reservation.status === "reserved",
+      description: `${reservation.quantity} x ${listing?.title ?? "Food Rescue listing"}`,
+    };
+  }
+
+  const request = await storage.getDeliveryRequest(id);
+  if (!request) return undefined;
+  return {
+    type,
+    id,
+    userId: request.customerId,
+    amount: (parseFloat(request.totalAmount) + parseFloat(request.deliveryFee)).toFixed(2),
+    paymentStatus: request.paymentStatus,
+    open: request.status !== "delivered" && request.status !== "cancelled",
+    description: "Food delivery order",
+  };
+}
+
+/**
+ * Open a payment intent with the provider and record it as pending
+ */
+export async function startPayment(subject: PayableSubject, method: PaymentMethod) {
+  const gateway = paymentProvider();
+  const intent = await gateway.createIntent({
+    reference: `${subject.type}:${subject.id}`,
+    amount: subject.amount,
+    currency: "SGD",
+    method,
+    description: subject.description,
+  });
+
+  const payment = await storage.createPayment({
+    provider: gateway.name,
+    providerPaymentId: intent.providerPaymentId,
+    subjectType: subject.type,
+    subjectId: subject.id,
+    userId: subject.userId,
+    method,
+    amount: subject.amount,
+    currency: "SGD",
+  });
+  return { payment, nextAction: intent.nextAction };
+}
+
+/**
+ * Fail the order's latest payment if it's still pending after its intent lapsed, so an
+ * abandoned checkout doesn't block paying again or cancelling. The intent is cancelled
+ * with the provider first; if the customer paid it after all, it stays pending until the
+ * provider's webhook marks it paid. Returns that payment.
+ */
+export async function expireLapsedPayment(subjectType: PaymentSubjectType, subjectId: string, now: Date = new Date()): Promise<Payment | undefined> {
+  const [payment] = await storage.getPaymentsBySubject(subjectType, subjectId);
+  if (payment?.status !== "pending" || now.getTime() - payment.createdAt.getTime() < PAYMENT_INTENT_TTL_MINUTES * 60 * 1000) {
+    return payment;
+  }
+  if (!(await paymentProvider().cancelIntent(payment.providerPaymentId))) {
+    return payment;
+  }
+  // A webhook may have settled it in the meantime
+  return (await storage.updatePaymentStatus(payment.id, "pending", "failed")) ?? (await storage.getPayment(payment.id));
+}
+
+// Which status each event moves a payment from and to
+const EVENT_TRANSITIONS: Record<PaymentEventType, { from: PaymentStatus; to: PaymentStatus }> = {
+  "payment.succeeded": { from: "pending", to: "paid" },
+  "payment.failed": { from: "pending", to: "failed" },
+  "refund.succeeded": { from: "paid", to: "refunded" },
+};
+
+/**
+ * Verify and apply a provider webhook. Returns the updated payment, or
+ * undefined if the event was for an unknown payment or had already been applied.
+ */
+export async function handlePaymentWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): Promise<Payment | undefined> {
+  const event = paymentProvider().parseWebhook(rawBody, headers);
+  const payment = await storage.getPaymentByProviderId(event.providerPaymentId);
+  if (!payment) return undefined;
+
+  const { from, to } = EVENT_TRANSITIONS[event.type];
+  return await storage.updatePaymentStatus(payment.id, from, to);
+}
+
+/**
+ * Refund a paid payment in full. A refunded pickup that hasn't been collected is
+ * cancelled, so its code can't be redeemed and the portions are released.
+ */
+export async function refundPayment(payment: Payment): Promise<Payment | undefined> {
+  await paymentProvider().refund(payment.providerPaymentId, payment.amount);
+  const refunded = await storage.updatePaymentStatus(payment.id, "paid", "refunded");
+  if (refunded?.subjectType === "reservation") {
+    await storage.cancelReservation(refunded.subjectId, waitlistOfferExpiry());
+  }
+  return refunded;
+}
+
+/**
+ * Whether payments can be completed by simulating the provider's webhook
+ * (test providers outside production)
+ */
+export function canSimulatePayments(): boolean {
+  return process.env.NODE_ENV !== "production" && !!paymentProvider().simulateWebhook;
+}
@@ -0,0 +1,38 @@
+import { randomInt } from "crypto";
+import type { Reservation } from "@shared/schema";
+
+// No 0/O or 1/I/L so codes survive being read out loud at the counter
+const CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 6;
+const QR_PREFIX = "FRSG-PICKUP";
+
+/**
+ * Generate a short, human-friendly pickup code (e.g. "K7M2QX")
+ */
+export function generatePickupCode(): string {
+  let code = "";
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    code += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+/**
+ * Text encoded in the reservation's QR code: "FRSG-PICKUP:<reservationId>:<code>"
+ */
+export function pickupQrPayload(reservation: Reservation): string {
+  return `${QR_PREFIX}:${reservation.id}:${reservation.pickupCode}`;
+}
+
+/**
+ * Normalise what the vendor typed or scanned into a bare pickup code.
+ * Accepts either the short code (any case, spaces/dashes ignored) or a full QR payload.
+ */
+export function parsePickupCode(input: string): string {
+  const trimmed = input.trim();
+  if (trimmed.toUpperCase().startsWith(`${QR_PREFIX}:`)) {
+    const parts = trimmed.split(":");
+    return (parts[parts.length - 1] || "").toUpperCase();
+  }
+  return trimmed.replace(/[\s-]/g, "").toUpperCase();
+}
@@ -0,0 +1,51 @@
+import type { FoodListing } from "@shared/schema";
+
+export interface PricedListing extends FoodListing {
+  currentPrice: string; // What a customer pays if they reserve now
+  nextPriceDrop: { at: Date; price: string } | null;
+}
+
+function roundToCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function stepPrice(listing: FoodListing, discountPercent: number): number {
+  return roundToCents(parseFloat(listing.originalPrice) * (1 - discountPercent / 100));
+}
+
+function stepStartsAt(listing: FoodListing, minutesBeforeClose: number): Date {
+  return new Date(listing.pickupTimeEnd.getTime() - minutesBeforeClose * 60 * 1000);
+}
+
+/**
+ * Unit price at `now`: the listing's discountedPrice, lowered by any pricing
+ * step that has already kicked in. Never goes above discountedPrice.
+ */
+export function currentUnitPrice(listing: FoodListing, now: Date = new Date()): number {
+  let price = parseFloat(listing.discountedPrice);
+  for (const step of listing.pricingCurve ?? []) {
+    if (stepStartsAt(listing, step.minutesBeforeClose).getTime() <= now.getTime()) {
+      price = Math.min(price, stepPrice(listing, step.discountPercent));
+    }
+  }
+  return roundToCents(price);
+}
+
+/**
+ * Attach the current price and the next scheduled price drop (if any) to a listing
+ */
+export function withCurrentPrice(listing: FoodListing, now: Date = new Date()): PricedListing {
+  const current = currentUnitPrice(listing, now);
+
+  let nextPriceDrop: PricedListing["nextPriceDrop"] = null;
+  for (const step of listing.pricingCurve ?? []) {
+    const at = stepStartsAt(listing, step.minutesBeforeClose);
+    const price = stepPrice(listing, step.discountPercent);
+    if (at.getTime() <= now.getTime() || price >= current) continue;
+    if (!nextPriceDrop || at.getTime() < nextPriceDrop.at.getTime()) {
+      nextPriceDrop = { at, price: price.toFixed(2) };
+    }
+  }
+
+  return { ...listing, currentPrice: current.toFixed(2), nextPriceDrop };
+}
@@ -0,0 +1,23 @@
+import type { QueueRollupResolution } from "@shared/schema";
+import { singaporeDateString, singaporeDateTimeAt } from "@shared/sg-time";
+
+export const queueRollupResolutions: QueueRollupResolution[] = ["5m", "1h", "1d"];
+
+/**
+ * Start of the bucket `at` falls in. Five-minute and hourly buckets line up with
+ * Singapore wall-clock time (UTC+8 is a whole number of hours); days are Singapore days.
+ */
+export function queueBucketStart(at: Date, resolution: QueueRollupResolution): Date {
+  if (resolution === "1d") {
+    return singaporeDateTimeAt(singaporeDateString(at), "00:00");
+  }
+  const size = resolution === "5m" ? 5 * 60 * 1000 : 60 * 60 * 1000;
+  return new Date(Math.floor(at.getTime() / size) * size);
+}
+
+/**
+ * Id of a stall's rollup row for one bucket
+ */
+export function queueRollupId(stallId: string, resolution: QueueRollupResolution, bucketStart: Date): string {
+  return `${stallId}:${resolution}:${bucketStart.toISOString()}`;
+}
@@ -0,0 +1,131 @@
+import type { QueueRollup, Stall } from "@shared/schema";
+import { formatSingaporeTime, singaporeDateString, singaporeWeekday, SG_UTC_OFFSET_MS } from "@shared/sg-time";
+import { storage } from "../storage";
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+export const FORECAST_BUCKET_MINUTES = 15;
+export const FORECAST_HORIZON_MINUTES = 120;
+// How far back the seasonal profile looks (5-minute rollups are kept 35 days)
+export const FORECAST_HISTORY_DAYS = 28;
+// Today's deviation from the usual pattern fades by half every this many minutes
+const DEVIATION_HALF_LIFE_MINUTES = 30;
+
+export interface ForecastBucket {
+  start: Date;
+  end: Date;
+  expectedQueue: number;
+  expectedWait: number; // Minutes
+  samples: number; // History samples behind the seasonal estimate; 0 means it fell back to the current queue
+}
+
+export interface QueueForecast {
+  stallId: string;
+  generatedAt: Date;
+  currentQueue: number;
+  currentWait: number;
+  buckets: ForecastBucket[];
+  bestTime: ForecastBucket;
+  hint: string;
+}
+
+interface SlotAverage {
+  queue: number;
+  wait: number;
+  samples: number;
+}
+
+// 15-minute slot of the Singapore day (0-95) and Singapore weekday of an instant
+function slotOf(at: Date): number {
+  const minutes = Math.floor(((at.getTime() + SG_UTC_OFFSET_MS) % DAY_MS) / MINUTE_MS);
+  return Math.floor(minutes / FORECAST_BUCKET_MINUTES);
+}
+
+function weekdayOf(at: Date): number {
+  return singaporeWeekday(singaporeDateString(at));
+}
+
+/**
+ * Sample-weighted average queue and wait per (weekday, slot) and per slot across all days
+ */
+function seasonalProfile(rollups: QueueRollup[]) {
+  const byWeekday = new Map<string, SlotAverage>();
+  const bySlot = new Map<number, SlotAverage>();
+  const add = <K>(map: Map<K, SlotAverage>, key: K, rollup: QueueRollup) => {
+    const total = map.get(key) ?? { queue: 0, wait: 0, samples: 0 };
+    total.queue += rollup.queueSum;
+    total.wait += rollup.waitSum;
+    total.samples += rollup.samples;
+    map.set(key, total);
+  };
+  for (const rollup of rollups) {
+    const slot = slotOf(rollup.bucketStart);
+    add(byWeekday, `${weekdayOf(rollup.bucketStart)}:${slot}`, rollup);
+    add(bySlot, slot, rollup);
+  }
+
+  // Same weekday if there's history for it, otherwise any day at that time
+  return (at: Date): SlotAverage | undefined => {
+    const total = byWeekday.get(`${weekdayOf(at)}:${slotOf(at)}`) ?? bySlot.get(slotOf(at));
+    return total && { queue: total.queue / total.samples, wait: total.wait / total.samples, samples: total.samples };
+  };
+}
+
+/**
+ * Expected wait at a stall over the next two hours in 15-minute buckets, from its
+ * weekday/time-of-day pattern in `rollups` (5-minute rollups, oldest first). The gap
+ * between the live queue and the usual one for right now is carried forward and fades.
+ */
+export function forecastStallQueue(stall: Stall, rollups: QueueRollup[], now: Date = new Date()): QueueForecast {
+  const usual = seasonalProfile(rollups);
+  const bucketMs = FORECAST_BUCKET_MINUTES * MINUTE_MS;
+  const firstStart = Math.floor(now.getTime() / bucketMs) * bucketMs;
+
+  const usualNow = usual(now);
+  const queueDeviation = usualNow ? stall.currentQueue - usualNow.queue : 0;
+  const waitDeviation = usualNow ? stall.estimatedWaitTime - usualNow.wait : 0;
+
+  const buckets: ForecastBucket[] = [];
+  for (let offset = 0; offset < FORECAST_HORIZON_MINUTES; offset += FORECAST_BUCKET_MINUTES) {
+    const start = new Date(firstStart + offset * MINUTE_MS);
+    const seasonal = usual(start);
+    const fade = Math.pow(0.5, offset / DEVIATION_HALF_LIFE_MINUTES);
+    const queue = seasonal ? seasonal.queue + queueDeviation * fade : stall.currentQueue;
+    const wait = seasonal ? seasonal.wait + waitDeviation * fade : stall.estimatedWaitTime;
+    buckets.push({
+      start,
+      end: new Date(start.getTime() + bucketMs),
+      expectedQueue: Math.max(0, Math.round(queue)),
+      expectedWait: Math.max(0, Math.round(wait)),
+      samples: seasonal?.samples ?? 0,
+    });
+  }
+
+  // Earliest of the shortest expected waits
+  const bestTime = buckets.reduce((best, bucket) => (bucket.expectedWait < best.expectedWait ? bucket : best));
+  return {
+    stallId: stall.id,
+    generatedAt: now,
+    currentQueue: stall.currentQueue,
+    currentWait: stall.estimatedWaitTime,
+    buckets,
+    bestTime,
+    hint: bestTimeHint(bestTime, buckets[0]),
+  };
+}
+
+function bestTimeHint(best: ForecastBucket, current: ForecastBucket): string {
+  if (best === current || best.expectedWait >= current.expectedWait) {
+    return `Go now: waits aren't expected to get shorter in the next 2 hours (~${current.expectedWait} min)`;
+  }
+  return `Best time to go: around ${formatSingaporeTime(best.start)} (~${best.expectedWait} min wait vs ~${current.expectedWait} min now)`;
+}
+
+/**
+ * Forecast a stall from its last four weeks of 5-minute rollups
+ */
+export async function getStallForecast(stall: Stall, now: Date = new Date()): Promise<QueueForecast> {
+  const from = new Date(now.getTime() - FORECAST_HISTORY_DAYS * DAY_MS);
+  const rollups = await storage.getQueueRollups(stall.id, "5m", from, now);
+  return forecastStallQueue(stall, rollups, now);
+}
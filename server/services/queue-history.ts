@@ -0,0 +1,101 @@
+import type { QueueHistoryResolution, QueueRollup, QueueSample } from "@shared/schema";
+import { storage } from "../storage";
+import { log } from "../vite";
+import { queueBucketStart } from "./queue-buckets";
+import { startIntervalJob } from "./interval-jobs";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000; // Once an hour
+
+// Raw samples and 5-minute rollups are only kept this long; hourly and daily rollups are kept
+export const RAW_SAMPLE_RETENTION_DAYS = 7;
+export const FIVE_MINUTE_RETENTION_DAYS = 35;
+
+// Longest range one request may cover at each resolution
+const MAX_RANGE_DAYS: Record<QueueHistoryResolution, number> = {
+  raw: 2,
+  "5m": 7,
+  "1h": 92,
+  "1d": 730,
+};
+
+// One point of a stall's queue history
+export interface QueueHistoryPoint {
+  at: Date; // Sample time, or the start of the bucket
+  samples: number;
+  avgQueue: number;
+  maxQueue: number;
+  avgWait: number;
+  maxWait: number;
+}
+
+/**
+ * Why a history request can't be served at this resolution, or undefined if it can
+ */
+export function queueHistoryRangeError(from: Date, to: Date, resolution: QueueHistoryResolution): string | undefined {
+  const maxDays = MAX_RANGE_DAYS[resolution];
+  if (to.getTime() - from.getTime() > maxDays * DAY_MS) {
+    return `Ranges at ${resolution} resolution can be at most ${maxDays} days; use a coarser resolution`;
+  }
+  return undefined;
+}
+
+export function sampleToPoint(sample: QueueSample): QueueHistoryPoint {
+  return {
+    at: sample.recordedAt,
+    samples: 1,
+    avgQueue: sample.currentQueue,
+    maxQueue: sample.currentQueue,
+    avgWait: sample.estimatedWaitTime,
+    maxWait: sample.estimatedWaitTime,
+  };
+}
+
+export function rollupToPoint(rollup: QueueRollup): QueueHistoryPoint {
+  return {
+    at: rollup.bucketStart,
+    samples: rollup.samples,
+    avgQueue: Math.round((rollup.queueSum / rollup.samples) * 10) / 10,
+    maxQueue: rollup.maxQueue,
+    avgWait: Math.round((rollup.waitSum / rollup.samples) * 10) / 10,
+    maxWait: rollup.maxWait,
+  };
+}
+
+/**
+ * A stall's history between `from` and `to`, oldest first
+ */
+export async function getQueueHistory(
+  stallId: string,
+  from: Date,
+  to: Date,
+  resolution: QueueHistoryResolution,
+): Promise<QueueHistoryPoint[]> {
+  if (resolution === "raw") {
+    return (await storage.getQueueSamples(stallId, from, to)).map(sampleToPoint);
+  }
+  // Include the bucket `from` falls in
+  const rollups = await storage.getQueueRollups(stallId, resolution, queueBucketStart(from, resolution), to);
+  return rollups.map(rollupToPoint);
+}
+
+/**
+ * Drop raw samples and 5-minute rollups past their retention
+ */
+export async function pruneQueueHistory(now: Date = new Date()) {
+  const removed = await storage.pruneQueueHistory(
+    new Date(now.getTime() - RAW_SAMPLE_RETENTION_DAYS * DAY_MS),
+    new Date(now.getTime() - FIVE_MINUTE_RETENTION_DAYS * DAY_MS),
+  );
+  if (removed > 0) {
+    log(`pruned ${removed} queue history row(s)`, "queue-history");
+  }
+  return removed;
+}
+
+/**
+ * Start the background pruning job. Runs once immediately, then every hour.
+ */
+export function startQueueHistoryPruneJob(): NodeJS.Timeout {
+  return startIntervalJob("pruning queue history", () => pruneQueueHistory(), PRUNE_INTERVAL_MS);
+}
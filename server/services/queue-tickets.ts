@@ -0,0 +1,101 @@
+import type { QueueTicket, Stall } from "@shared/schema";
+import { singaporeDateString } from "@shared/sg-time";
+import { storage } from "../storage";
+import { log } from "../vite";
+import { updateStallQueue } from "./queue-updates";
+import { startIntervalJob } from "./interval-jobs";
+
+const EXPIRY_INTERVAL_MS = 10 * 60 * 1000; // Every 10 minutes, so yesterday's tickets go soon after midnight
+
+/**
+ * Still in the queue: waiting for its number or being served
+ */
+export function isOpenTicket(ticket: QueueTicket): boolean {
+  return ticket.status === "waiting" || ticket.status === "called";
+}
+
+// A stall's take-a-number board for today
+export interface QueueBoard {
+  stallId: string;
+  serviceDate: string;
+  servingNumber: number | null; // The ticket being called, or null between tickets
+  lastIssued: number | null;
+  waiting: number;
+}
+
+/**
+ * Board for a stall from its tickets for the day (by number)
+ */
+export function queueBoard(stallId: string, serviceDate: string, tickets: QueueTicket[]): QueueBoard {
+  const serving = tickets.find(t => t.status === "called");
+  return {
+    stallId,
+    serviceDate,
+    servingNumber: serving?.number ?? null,
+    lastIssued: tickets.length > 0 ? tickets[tickets.length - 1].number : null,
+    waiting: tickets.filter(t => t.status === "waiting").length,
+  };
+}
+
+export interface TicketView extends QueueTicket {
+  ahead?: number; // Open tickets before this one, including the one being served
+  etaMinutes?: number;
+  etaAt?: Date;
+}
+
+/**
+ * A ticket with its place in line and when it should be called, at the stall's service
+ * rate. Only open tickets get an ETA; `dayTickets` are the stall's tickets for its day.
+ */
+export function ticketView(ticket: QueueTicket, dayTickets: QueueTicket[], stall: Pick<Stall, "serviceMinutesPerPerson">, now: Date = new Date()): TicketView {
+  if (ticket.status === "called") {
+    return { ...ticket, ahead: 0, etaMinutes: 0, etaAt: now };
+  }
+  if (ticket.status !== "waiting") {
+    return { ...ticket };
+  }
+  const ahead = dayTickets.filter(t => isOpenTicket(t) && t.number < ticket.number).length;
+  const etaMinutes = Math.ceil(ahead * parseFloat(stall.serviceMinutesPerPerson));
+  return { ...ticket, ahead, etaMinutes, etaAt: new Date(now.getTime() + etaMinutes * 60 * 1000) };
+}
+
+/**
+ * Why a user can't take a number at this stall, or undefined if they can
+ */
+export function ticketIssueBlocker(dayTickets: QueueTicket[], userId: string): string | undefined {
+  if (dayTickets.some(t => t.userId === userId && isOpenTicket(t))) {
+    return "You already have a ticket for this stall";
+  }
+  return undefined;
+}
+
+/**
+ * Set the stall's queue to its open tickets for the day, so the queue monitor, history and
+ * forecasts pick up the virtual queue. The wait follows from the stall's service rate.
+ */
+export async function syncStallQueue(stallId: string, serviceDate: string = singaporeDateString()) {
+  const tickets = await storage.getQueueTicketsByStall(stallId, serviceDate);
+  return await updateStallQueue(stallId, tickets.filter(isOpenTicket).length);
+}
+
+/**
+ * Run one pass: expire tickets left open from earlier days and resync their stalls
+ */
+export async function expireQueueTickets(now: Date = new Date()) {
+  const today = singaporeDateString(now);
+  const expired = await storage.expireQueueTickets(today, now);
+  if (expired.length > 0) {
+    for (const stallId of Array.from(new Set(expired.map(t => t.stallId)))) {
+      await syncStallQueue(stallId, today);
+    }
+    log(`expired ${expired.length} queue ticket(s)`, "queue-tickets");
+  }
+  return expired.length;
+}
+
+/**
+ * Start the background ticket expiry job. Runs once immediately, then every 10 minutes.
+ */
+export function startQueueTicketExpiryJob(): NodeJS.Timeout {
+  return startIntervalJob("expiring queue tickets", () => expireQueueTickets(), EXPIRY_INTERVAL_MS);
+}
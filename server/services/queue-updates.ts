@@ -0,0 +1,98 @@
+import { EventEmitter } from "events";
+import type { Request, Response } from "express";
+import type { Stall } from "@shared/schema";
+import { storage } from "../storage";
+
+const HEARTBEAT_INTERVAL_MS = 25 * 1000; // Keeps idle connections open through proxies
+const RECONNECT_DELAY_MS = 5 * 1000;
+
+// What clients receive for each changed stall
+export interface StallQueueUpdate {
+  id: string;
+  canteenId: string;
+  currentQueue: number;
+  estimatedWaitTime: number;
+}
+
+const queueEvents = new EventEmitter();
+queueEvents.setMaxListeners(0); // One listener per open queue monitor
+
+function toQueueUpdate(stall: Stall): StallQueueUpdate {
+  return {
+    id: stall.id,
+    canteenId: stall.canteenId,
+    currentQueue: stall.currentQueue,
+    estimatedWaitTime: stall.estimatedWaitTime,
+  };
+}
+
+/**
+ * Minutes to get through a queue of `currentQueue` people at the stall's current rate
+ */
+export function waitForQueue(stall: Pick<Stall, "serviceMinutesPerPerson">, currentQueue: number): number {
+  return Math.ceil(currentQueue * parseFloat(stall.serviceMinutesPerPerson));
+}
+
+function sendEvent(res: Response, event: string, data: unknown) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+export interface QueueUpdateOptions {
+  // Demo traffic: shown live but kept out of the history, forecasts and service rates
+  simulated?: boolean;
+}
+
+/**
+ * Store a stall's new queue length and wait, add it to the queue history, then push it
+ * to every connected client. All queue changes go through here so none are missed.
+ * The wait defaults to the queue at the stall's learned service rate.
+ */
+export async function updateStallQueue(
+  id: string,
+  currentQueue: number,
+  estimatedWaitTime?: number,
+  options: QueueUpdateOptions = {},
+): Promise<Stall | undefined> {
+  const current = await storage.getStall(id);
+  if (!current) return undefined;
+  const stall = await storage.updateStallQueue(id, currentQueue, estimatedWaitTime ?? waitForQueue(current, currentQueue));
+  if (stall) {
+    if (!options.simulated) {
+      await storage.recordQueueSample(stall.id, stall.currentQueue, stall.estimatedWaitTime, new Date());
+    }
+    queueEvents.emit("stall", toQueueUpdate(stall));
+  }
+  return stall;
+}
+
+/**
+ * Whether the demo queue simulator may run (never in production)
+ */
+export function canSimulateQueues(): boolean {
+  return process.env.NODE_ENV !== "production";
+}
+
+/**
+ * Server-Sent Events stream of queue changes. Sends a `snapshot` of every stall on
+ * connect (so reconnecting clients catch up), then a `stall` event per change.
+ */
+export async function streamQueueUpdates(req: Request, res: Response) {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+  });
+  res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+  const onUpdate = (update: StallQueueUpdate) => sendEvent(res, "stall", update);
+  queueEvents.on("stall", onUpdate);
+  const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), HEARTBEAT_INTERVAL_MS);
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    queueEvents.off("stall", onUpdate);
+  });
+
+  const stalls = await storage.getAllStalls();
+  sendEvent(res, "snapshot", stalls.map(toQueueUpdate));
+}
@@ -1,4 +1,5 @@
 import type { Stall, User, UserPreferences, CampusBlock, Canteen } from "@shared/schema";
+import { satisfiesDietaryRestrictions } from "./dietary";
 
 // Configuration for recommendation weights
 const WEIGHTS = {
@@ -26,7 +27,7 @@ export interface ScoredStall {
  * Calculate distance between two GPS coordinates using Haversine formula
  * Returns distance in meters
  */
-function calculateDistance(
+export function calculateDistance(
   lat1: number,
   lon1: number,
   lat2: number,
@@ -52,23 +53,8 @@ function calculateDistance(
  */
 function calculatePreferenceScore(
   userCuisines: string[],
-  stallCuisine: string,
-  dietaryRestrictions: string[]
+  stallCuisine: string
 ): number {
-  // If user has dietary restrictions that conflict with the stall, penalize heavily
-  // For now, we'll implement basic logic (can be extended with a restrictions database)
-  const hasConflict = dietaryRestrictions.some(restriction => {
-    if (restriction.toLowerCase() === 'vegetarian' && stallCuisine.toLowerCase().includes('meat')) {
-      return true;
-    }
-    if (restriction.toLowerCase() === 'halal' && !stallCuisine.toLowerCase().includes('halal')) {
-      return true;
-    }
-    return false;
-  });
-
-  if (hasConflict) return 0;
-
   // Check if stall cuisine matches any user preference
   const isPreferred = userCuisines.some(
     cuisine => cuisine.toLowerCase() === stallCuisine.toLowerCase()
@@ -167,6 +153,11 @@ export function calculateRecommendations(
       return false;
     }
     
+    // Filter by dietary restrictions against the stall's structured tags (hard filter)
+    if (!satisfiesDietaryRestrictions(stall.dietaryTags, dietaryRestrictions)) {
+      return false;
+    }
+
     // Filter by max walking distance (hard filter - MUST enforce)
     if (distance !== undefined && distance > maxWalkingDistance) {
       return false;
@@ -186,7 +177,7 @@ export function calculateRecommendations(
 
     // Calculate preference score
     const preferenceScore = cuisineTypes.length > 0
-      ? calculatePreferenceScore(cuisineTypes, stall.cuisineType, dietaryRestrictions)
+      ? calculatePreferenceScore(cuisineTypes, stall.cuisineType)
       : 0.5; // Neutral if no preferences set
 
     // Calculate queue score
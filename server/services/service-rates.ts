@@ -0,0 +1,83 @@
+import type { QueueSample } from "@shared/schema";
+import { storage } from "../storage";
+import { log } from "../vite";
+import { RAW_SAMPLE_RETENTION_DAYS } from "./queue-history";
+import { updateStallQueue, waitForQueue } from "./queue-updates";
+import { startIntervalJob } from "./interval-jobs";
+
+const MINUTE_MS = 60 * 1000;
+const REFRESH_INTERVAL_MS = 60 * 60 * 1000; // Once an hour
+
+// Used until a stall has been observed, and as the prior its observations are weighed against
+export const DEFAULT_SERVICE_MINUTES_PER_PERSON = 2.5;
+// The prior counts as this many people served, so a few noisy drains can't swing the rate
+const PRIOR_WEIGHT_PEOPLE = 10;
+const MIN_SERVICE_MINUTES_PER_PERSON = 0.5;
+const MAX_SERVICE_MINUTES_PER_PERSON = 10;
+// Samples further apart than this (closing time, outages) say nothing about service speed
+const MAX_DRAIN_GAP_MINUTES = 15;
+
+export interface ServiceRateEstimate {
+  minutesPerPerson: number;
+  peopleServed: number; // Observed across the drains it was estimated from
+}
+
+/**
+ * Service rate from a stall's raw queue samples (oldest first). Samples only mark queue
+ * changes, so the time before a drop is only serving time if the change before it was
+ * also a drop: inside a drain the counter is busy throughout. A drop straight after an
+ * arrival is skipped, since that gap says how long since someone joined, not how long
+ * serving took. Arrivals that don't break a drain hide some service, so this errs slow.
+ */
+export function estimateServiceRate(samples: QueueSample[]): ServiceRateEstimate | undefined {
+  // Samples where only the wait changed (e.g. a new rate) don't mark anything served
+  const changes = samples.filter((s, i) => i === 0 || s.currentQueue !== samples[i - 1].currentQueue);
+  let minutes = 0;
+  let peopleServed = 0;
+  for (let i = 2; i < changes.length; i++) {
+    const [before, start, end] = [changes[i - 2], changes[i - 1], changes[i]];
+    const served = start.currentQueue - end.currentQueue;
+    const elapsed = (end.recordedAt.getTime() - start.recordedAt.getTime()) / MINUTE_MS;
+    const drainContinues = start.currentQueue < before.currentQueue;
+    if (served > 0 && drainContinues && elapsed > 0 && elapsed <= MAX_DRAIN_GAP_MINUTES) {
+      minutes += elapsed;
+      peopleServed += served;
+    }
+  }
+  if (peopleServed === 0) return undefined;
+
+  const blended = (minutes + DEFAULT_SERVICE_MINUTES_PER_PERSON * PRIOR_WEIGHT_PEOPLE) / (peopleServed + PRIOR_WEIGHT_PEOPLE);
+  const minutesPerPerson = Math.min(MAX_SERVICE_MINUTES_PER_PERSON, Math.max(MIN_SERVICE_MINUTES_PER_PERSON, blended));
+  return { minutesPerPerson: Math.round(minutesPerPerson * 100) / 100, peopleServed };
+}
+
+/**
+ * Re-estimate every stall's service rate from the raw samples still kept, then re-derive
+ * its wait through the normal queue update path. Stalls with no drains keep their rate.
+ */
+export async function refreshServiceRates(now: Date = new Date()) {
+  const from = new Date(now.getTime() - RAW_SAMPLE_RETENTION_DAYS * 24 * 60 * MINUTE_MS);
+  let refreshed = 0;
+  for (const stall of await storage.getAllStalls()) {
+    const estimate = estimateServiceRate(await storage.getQueueSamples(stall.id, from, now));
+    if (!estimate) continue;
+
+    const updated = await storage.updateStallServiceRate(stall.id, estimate.minutesPerPerson.toFixed(2), estimate.peopleServed, now);
+    if (!updated) continue;
+    refreshed++;
+    if (waitForQueue(updated, updated.currentQueue) !== updated.estimatedWaitTime) {
+      await updateStallQueue(updated.id, updated.currentQueue);
+    }
+  }
+  if (refreshed > 0) {
+    log(`refreshed service rates for ${refreshed} stall(s)`, "service-rates");
+  }
+  return refreshed;
+}
+
+/**
+ * Start the background refresh job. Runs once immediately, then every hour.
+ */
+export function startServiceRateJob(): NodeJS.Timeout {
+  return startIntervalJob("refreshing service rates", () => refreshServiceRates(), REFRESH_INTERVAL_MS);
+}
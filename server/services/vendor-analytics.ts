@@ -0,0 +1,133 @@
+import type { FoodListing, Reservation, VendorAnalyticsQuery } from "@shared/schema";
+import { addDaysToDateString, singaporeDateString } from "@shared/sg-time";
+
+const DEFAULT_RANGE_DAYS = 30;
+
+export interface SellThroughStats {
+  listings: number;
+  portionsPosted: number;
+  portionsClaimed: number;
+  sellThroughPercent: number; // Share of posted portions that were claimed
+  revenueRecovered: string; // From collected pickups, e.g. "42.50"
+  soldOut: number; // Listings with no portions left
+  avgMinutesToSellOut: number | null; // From posting to the last claim, over sold-out listings
+  noShowPercent: number | null; // Share of finished pickups that were no-shows; null if none finished yet
+}
+
+export interface VendorAnalytics {
+  from: string;
+  to: string;
+  totals: SellThroughStats;
+  byDay: Array<SellThroughStats & { date: string }>;
+  byItem: Array<SellThroughStats & { title: string }>;
+}
+
+interface ListingOutcome {
+  listing: FoodListing;
+  reservations: Reservation[];
+}
+
+/**
+ * The inclusive date range to report on; the last 30 days by default
+ */
+export function vendorAnalyticsRange(query: VendorAnalyticsQuery, now: Date = new Date()) {
+  const to = query.to ?? singaporeDateString(now);
+  const from = query.from ?? addDaysToDateString(to, -(DEFAULT_RANGE_DAYS - 1));
+  return { from, to };
+}
+
+/**
+ * Why a range can't be reported on, or undefined if it can. Checked after the defaults
+ * apply, since a `from` on its own can land after the default `to`.
+ */
+export function vendorAnalyticsRangeError(range: { from: string; to: string }): string | undefined {
+  return range.from > range.to ? "from must be on or before to" : undefined;
+}
+
+function percent(part: number, whole: number): number {
+  return whole > 0 ? Math.round((part / whole) * 1000) / 10 : 0;
+}
+
+function summarise(outcomes: ListingOutcome[]): SellThroughStats {
+  let portionsPosted = 0;
+  let portionsClaimed = 0;
+  let revenue = 0;
+  let soldOut = 0;
+  let sellOutMinutes = 0;
+  let collected = 0;
+  let noShows = 0;
+
+  for (const { listing, reservations } of outcomes) {
+    // listing.quantity counts down as portions are claimed
+    const claimed = reservations.reduce((sum, r) => sum + r.quantity, 0);
+    portionsClaimed += claimed;
+    portionsPosted += listing.quantity + claimed;
+
+    for (const reservation of reservations) {
+      if (reservation.status === "collected") {
+        collected++;
+        revenue += parseFloat(reservation.totalPrice);
+      } else if (reservation.status === "no_show") {
+        noShows++;
+      }
+    }
+
+    if (listing.quantity === 0 && reservations.length > 0) {
+      const lastClaim = Math.max(...reservations.map(r => r.createdAt.getTime()));
+      soldOut++;
+      sellOutMinutes += Math.max(0, lastClaim - listing.createdAt.getTime()) / 60000;
+    }
+  }
+
+  return {
+    listings: outcomes.length,
+    portionsPosted,
+    portionsClaimed,
+    sellThroughPercent: percent(portionsClaimed, portionsPosted),
+    revenueRecovered: revenue.toFixed(2),
+    soldOut,
+    avgMinutesToSellOut: soldOut > 0 ? Math.round(sellOutMinutes / soldOut) : null,
+    noShowPercent: collected + noShows > 0 ? percent(noShows, collected + noShows) : null,
+  };
+}
+
+function groupBy(outcomes: ListingOutcome[], key: (outcome: ListingOutcome) => string) {
+  const groups = new Map<string, ListingOutcome[]>();
+  for (const outcome of outcomes) {
+    const k = key(outcome);
+    groups.set(k, [...(groups.get(k) ?? []), outcome]);
+  }
+  return Array.from(groups.entries());
+}
+
+/**
+ * Sell-through for a vendor's listings whose pickup day (Singapore time) falls
+ * in [from, to], in total, per day and per item. Listings with the same title
+ * (e.g. published by the same recurring template) count as one item.
+ */
+export function computeVendorAnalytics(
+  listings: FoodListing[],
+  reservations: Reservation[],
+  range: { from: string; to: string },
+): VendorAnalytics {
+  const outcomes = listings
+    .filter(listing => {
+      const day = singaporeDateString(listing.pickupTimeStart);
+      return range.from <= day && day <= range.to;
+    })
+    .map(listing => ({
+      listing,
+      reservations: reservations.filter(r => r.listingId === listing.id && r.status !== "cancelled"),
+    }));
+
+  return {
+    ...range,
+    totals: summarise(outcomes),
+    byDay: groupBy(outcomes, o => singaporeDateString(o.listing.pickupTimeStart))
+      .map(([date, group]) => ({ date, ...summarise(group) }))
+      .sort((a, b) => a.date.localeCompare(b.date)),
+    byItem: groupBy(outcomes, o => o.listing.title.trim())
+      .map(([title, group]) => ({ title, ...summarise(group) }))
+      .sort((a, b) => b.portionsPosted - a.portionsPosted || a.title.localeCompare(b.title)),
+  };
+}
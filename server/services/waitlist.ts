@@ -0,0 +1,80 @@
+import type { FoodListing, WaitlistEntry } from "@shared/schema";
+import { storage } from "../storage";
+import { log } from "../vite";
+import { startIntervalJob } from "./interval-jobs";
+
+// How long freed portions are held for the next waitlisted user
+export const WAITLIST_OFFER_MINUTES = 10;
+
+const OFFER_EXPIRY_INTERVAL_MS = 60 * 1000; // Check once a minute
+
+/**
+ * When an offer made at `now` lapses (storage also cuts it off at the end of pickup)
+ */
+export function waitlistOfferExpiry(now: Date = new Date()): Date {
+  return new Date(now.getTime() + WAITLIST_OFFER_MINUTES * 60 * 1000);
+}
+
+/**
+ * Sold out but still within its pickup window, so cancellations may free portions
+ */
+export function isSoldOut(listing: FoodListing, now: Date = new Date()): boolean {
+  return listing.quantity === 0 && listing.pickupTimeEnd.getTime() > now.getTime();
+}
+
+/**
+ * Still on the waitlist: waiting for portions or holding an offer
+ */
+export function isActiveWaitlistEntry(entry: WaitlistEntry): boolean {
+  return entry.status === "waiting" || entry.status === "offered";
+}
+
+export interface WaitlistSummary {
+  waiting: number; // Users still in line (not holding an offer)
+  entry?: WaitlistEntry; // The user's active entry, if any
+  position?: number; // 1-based place in line while the user's entry is "waiting"
+}
+
+/**
+ * Queue length and the user's place in it, from a listing's entries (oldest first)
+ */
+export function waitlistSummary(entries: WaitlistEntry[], userId?: string): WaitlistSummary {
+  const waiting = entries.filter(e => e.status === "waiting");
+  const entry = userId ? entries.find(e => e.userId === userId && isActiveWaitlistEntry(e)) : undefined;
+  const index = entry ? waiting.indexOf(entry) : -1;
+  return { waiting: waiting.length, entry, position: index >= 0 ? index + 1 : undefined };
+}
+
+/**
+ * Why a user can't join a listing's waitlist, or undefined if they can
+ */
+export function waitlistJoinBlocker(listing: FoodListing, entries: WaitlistEntry[], userId: string, now: Date = new Date()): string | undefined {
+  if (listing.pickupTimeEnd.getTime() <= now.getTime()) {
+    return "The pickup window for this listing has closed";
+  }
+  if (!isSoldOut(listing, now)) {
+    return "This listing still has portions; reserve them instead";
+  }
+  if (entries.some(e => e.userId === userId && isActiveWaitlistEntry(e))) {
+    return "You're already on the waitlist for this listing";
+  }
+  return undefined;
+}
+
+/**
+ * Run one pass: expire lapsed offers and pass their portions to the next user in line
+ */
+export async function expireWaitlistOffers(now: Date = new Date()) {
+  const expired = await storage.expireWaitlistOffers(now, waitlistOfferExpiry(now));
+  if (expired > 0) {
+    log(`expired ${expired} waitlist offer(s)`, "waitlist");
+  }
+  return expired;
+}
+
+/**
+ * Start the background offer expiry job. Runs once immediately, then every minute.
+ */
+export function startWaitlistOfferJob(): NodeJS.Timeout {
+  return startIntervalJob("expiring waitlist offers", () => expireWaitlistOffers(), OFFER_EXPIRY_INTERVAL_MS);
+}
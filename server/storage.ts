@@ -1,8 +1,11 @@
 import { 
   type Canteen, type InsertCanteen,
   type Stall, type InsertStall,
-  type FoodListing, type InsertFoodListing,
-  type Vendor, type InsertVendor,
+  type QueueSample, type QueueRollup, type QueueRollupResolution,
+  type QueueTicket, type QueueTicketOutcome,
+  type FoodListing, type InsertFoodListing, type UpdateFoodListing,
+  type Vendor, type InsertVendor, type UpdateVendor,
+  type OpeningPeriod, type VendorHoursException, type VendorHoursExceptionInput,
   type Rating, type InsertRating,
   type User, type InsertUser,
   type UserPreferences, type InsertUserPreferences,
@@ -10,19 +13,170 @@ import {
   type DeliveryRequest, type InsertDeliveryRequest,
   type DeliveryEarnings, type InsertDeliveryEarnings,
   type Voucher, type InsertVoucher,
-  canteens, stalls, foodListings, vendors, ratings,
-  users, userPreferences, campusBlocks, deliveryRequests, deliveryEarnings, vouchers
+  type Reservation,
+  type Donation,
+  type WaitlistEntry,
+  type Payment, type InsertPayment, type PaymentStatus, type PaymentSubjectType,
+  type ImpactEntry, type InsertImpactEntry,
+  type FoodCategory, type FoodCategoryFactor,
+  type ListingTemplate, type InsertListingTemplate, type UpdateListingTemplate,
+  type ListingTemplateDay, type UpdateListingTemplateDay,
+  type PricingStep,
+  type DietaryTag,
+  canteens, stalls, queueSamples, queueRollups, queueTickets, queueTicketCounters, foodListings, vendors, vendorHoursExceptions, ratings,
+  users, userPreferences, campusBlocks, deliveryRequests, deliveryEarnings, vouchers,
+  reservations, donations, waitlistEntries, impactEntries, foodCategoryFactors, listingTemplates, listingTemplateDays, payments
 } from "@shared/schema";
 import { randomUUID } from "crypto";
 import { drizzle } from "drizzle-orm/neon-serverless";
-import { eq, and, sql } from "drizzle-orm";
+import { eq, and, gt, gte, lt, lte, inArray, isNull, desc, asc, sql } from "drizzle-orm";
 import { Pool, neonConfig } from "@neondatabase/serverless";
 import ws from "ws";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import { hashPasswordSync } from "./services/passwords";
+import { generatePickupCode } from "./services/pickup-codes";
+import { currentUnitPrice } from "./services/pricing";
+import { queueBucketStart, queueRollupId, queueRollupResolutions } from "./services/queue-buckets";
+import { addDaysToDateString, singaporeDateString, singaporeDateTimeAt, singaporeWeekday } from "@shared/sg-time";
+
+const PostgresSessionStore = connectPg(session);
+const MemoryStore = createMemoryStore(session);
 
 // Configure WebSocket for Neon in Node.js environment
 neonConfig.webSocketConstructor = ws;
 
+// Result of atomically claiming portions from a listing
+export interface ReservationResult {
+  listing: FoodListing;
+  reservation: Reservation;
+}
+
+// A charity's bulk claim: the reservation for everything left and its donation record
+export interface DonationClaim extends ReservationResult {
+  donation: Donation;
+}
+
+// Limit donations to one charity or one vendor; omit for all
+export interface DonationScope {
+  charityUserId?: string;
+  vendorId?: string;
+}
+
+// What advancing a stall's ticket queue did: the ticket it closed and the one it called, if any
+export interface QueueAdvanceResult {
+  closed?: QueueTicket;
+  called?: QueueTicket;
+}
+
+// Result of one expiry pass over listings whose pickup window has closed
+export interface ExpiryResult {
+  expiredListings: number;
+  noShowReservations: number;
+}
+
+// Sums over impact ledger entries
+export interface ImpactTotals {
+  rescues: number;
+  meals: number;
+  moneySaved: number;
+  foodKg: number;
+  co2eKg: number;
+}
+
+export interface CategoryImpactTotals extends ImpactTotals {
+  category: FoodCategory;
+}
+
+// Limit impact totals to one customer or one vendor; omit for platform-wide totals
+export interface ImpactScope {
+  userId?: string;
+  vendorId?: string;
+}
+
+// Demo curve for the seeded bakery listing: 60% off from 1h before close, 75% off in the last 30 minutes
+const SEED_PRICING_CURVE: PricingStep[] = [
+  { minutesBeforeClose: 60, discountPercent: 60 },
+  { minutesBeforeClose: 30, discountPercent: 75 },
+];
+
+// Seed dietary tags: stalls by cuisine, listings by position in the seed list
+const SEED_CUISINE_TAGS: Record<string, DietaryTag[]> = {
+  Chinese: ["contains_shellfish"],
+  Malay: ["halal", "contains_nuts"],
+  Indian: ["halal", "vegetarian", "contains_dairy"],
+  Western: ["contains_dairy", "contains_gluten"],
+  Japanese: ["contains_shellfish", "contains_gluten"],
+  Korean: ["contains_gluten"],
+  Thai: ["contains_nuts", "contains_shellfish"],
+  Vietnamese: ["contains_nuts"],
+};
+// Minutes per person served; drinks-and-noodle counters are quicker than made-to-order
+const SEED_SERVICE_MINUTES: Record<string, number> = {
+  Chinese: 2,
+  Malay: 1.5,
+  Indian: 3.5,
+  Western: 4,
+  Japanese: 3,
+  Korean: 3,
+  Thai: 2.5,
+  Vietnamese: 1,
+};
+const SEED_LISTING_TAGS: DietaryTag[][] = [
+  ["vegetarian", "contains_gluten", "contains_dairy"], // Bread & pastries
+  ["halal", "contains_nuts"], // Nasi lemak
+  ["contains_shellfish", "contains_gluten"], // Dim sum
+  ["vegan"], // Salad bowl
+  [], // Chicken rice
+];
+
+const SEED_LISTING_CATEGORIES: FoodCategory[] = ["bakery", "rice_dishes", "dim_sum", "salads", "rice_dishes"];
+
+// Seed listings whose leftovers charities may bulk-claim (free) near the end of pickup
+const SEED_CHARITY_OPT_IN = [true, false, true, true, false];
+
+// Sunrise Bakery's end-of-day bread bag, published every evening by the scheduler
+const SEED_LISTING_TEMPLATE: Omit<ListingTemplate, "id" | "createdAt"> = {
+  vendorId: "vendor-1",
+  title: "End-of-Day Bread Bag",
+  description: "A mixed bag of today's unsold loaves, buns and pastries",
+  category: "bakery",
+  originalPrice: "15.00",
+  discountedPrice: "6.00",
+  defaultQuantity: 8,
+  imageUrl: "Bakery_bread_and_pastries_491a3fb4.png",
+  pricingCurve: null,
+  dietaryTags: ["vegetarian", "contains_gluten", "contains_dairy"],
+  daysOfWeek: [0, 1, 2, 3, 4, 5, 6],
+  pickupStart: "20:00",
+  pickupEnd: "21:30",
+  publishLeadMinutes: 120,
+  active: true,
+};
+
+// Seed vendor hours: the same period every day of the week
+function dailyHours(open: string, close: string): OpeningPeriod[] {
+  return [0, 1, 2, 3, 4, 5, 6].map(day => ({ day, open, close }));
+}
+
+// Seed listings with an evening pickup window (17:00-19:30 Singapore time),
+// rolled over to tomorrow once today's window has closed
+function seedPickupWindow(): { pickupTimeStart: Date; pickupTimeEnd: Date } {
+  const today = singaporeDateString();
+  const start = new Date(`${today}T17:00:00+08:00`);
+  const end = new Date(`${today}T19:30:00+08:00`);
+  if (end.getTime() <= Date.now()) {
+    const oneDay = 24 * 60 * 60 * 1000;
+    return { pickupTimeStart: new Date(start.getTime() + oneDay), pickupTimeEnd: new Date(end.getTime() + oneDay) };
+  }
+  return { pickupTimeStart: start, pickupTimeEnd: end };
+}
+
 export interface IStorage {
+  // Sessions
+  sessionStore: session.Store;
+
   // Canteens
   getAllCanteens(): Promise<Canteen[]>;
   getCanteen(id: string): Promise<Canteen | undefined>;
@@ -35,21 +189,57 @@ export interface IStorage {
   getStall(id: string): Promise<Stall | undefined>;
   createStall(stall: InsertStall): Promise<Stall>;
   updateStallQueue(id: string, queueNumber: number, waitTime: number): Promise<Stall | undefined>;
+  // Store a learned service rate; callers re-derive the wait through updateStallQueue
+  updateStallServiceRate(id: string, minutesPerPerson: string, peopleServed: number, updatedAt: Date): Promise<Stall | undefined>;
+  updateStallDietaryTags(id: string, dietaryTags: DietaryTag[]): Promise<Stall | undefined>;
   deleteStall(id: string): Promise<void>;
+
+  // Queue history
+  // Record one queue observation and add it to its 5-minute, hourly and daily rollups
+  recordQueueSample(stallId: string, currentQueue: number, estimatedWaitTime: number, recordedAt: Date): Promise<QueueSample>;
+  // Samples recorded in [from, to], oldest first
+  getQueueSamples(stallId: string, from: Date, to: Date): Promise<QueueSample[]>;
+  // Rollups whose bucket starts in [from, to], oldest first
+  getQueueRollups(stallId: string, resolution: QueueRollupResolution, from: Date, to: Date): Promise<QueueRollup[]>;
+  // Delete samples recorded before `samplesBefore` and 5-minute rollups before `fiveMinuteBefore`; returns rows removed
+  pruneQueueHistory(samplesBefore: Date, fiveMinuteBefore: Date): Promise<number>;
+
+  // Virtual queue tickets
+  // Issue the stall's next number for the Singapore day `serviceDate`
+  issueQueueTicket(stallId: string, userId: string, serviceDate: string): Promise<QueueTicket>;
+  getQueueTicket(id: string): Promise<QueueTicket | undefined>;
+  // A stall's tickets for one Singapore day, by number
+  getQueueTicketsByStall(stallId: string, serviceDate: string): Promise<QueueTicket[]>;
+  // A user's tickets, newest first
+  getQueueTicketsByUser(userId: string): Promise<QueueTicket[]>;
+  // Close the called ticket as `outcome`, then call the lowest waiting number
+  advanceQueueTickets(stallId: string, serviceDate: string, outcome: QueueTicketOutcome, now: Date): Promise<QueueAdvanceResult>;
+  // Cancel a waiting or called ticket; undefined if it's already closed
+  cancelQueueTicket(id: string, now: Date): Promise<QueueTicket | undefined>;
+  // Expire tickets still open from days before `serviceDate`; returns them
+  expireQueueTickets(serviceDate: string, now: Date): Promise<QueueTicket[]>;
   
   // Food Listings
   getAllFoodListings(availableOnly?: boolean): Promise<FoodListing[]>;
   getFoodListing(id: string): Promise<FoodListing | undefined>;
   getFoodListingsByVendor(vendorId: string): Promise<FoodListing[]>;
   createFoodListing(listing: InsertFoodListing): Promise<FoodListing>;
+  createFoodListings(listings: InsertFoodListing[]): Promise<FoodListing[]>; // All or nothing
   updateFoodListingAvailability(id: string, available: boolean): Promise<FoodListing | undefined>;
+  updateFoodListing(id: string, updates: UpdateFoodListing): Promise<FoodListing | undefined>;
   deleteFoodListing(id: string): Promise<void>;
   
   // Vendors
   getAllVendors(): Promise<Vendor[]>;
   getVendor(id: string): Promise<Vendor | undefined>;
   createVendor(vendor: InsertVendor): Promise<Vendor>;
+  updateVendor(id: string, updates: UpdateVendor): Promise<Vendor | undefined>;
   deleteVendor(id: string): Promise<void>;
+  // Closures and special hours, oldest first; all vendors if vendorId is omitted
+  getVendorHoursExceptions(vendorId?: string, fromDate?: string): Promise<VendorHoursException[]>;
+  // Create or replace the exception for one date
+  setVendorHoursException(vendorId: string, date: string, exception: VendorHoursExceptionInput): Promise<VendorHoursException>;
+  deleteVendorHoursException(vendorId: string, date: string): Promise<void>;
   
   // Ratings
   createRating(rating: InsertRating): Promise<Rating>;
@@ -58,6 +248,7 @@ export interface IStorage {
   getAllRatings(): Promise<Rating[]>;
   
   // Users
+  // Throws DuplicateUserError if the username or email is already taken
   createUser(user: InsertUser): Promise<User>;
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
@@ -67,6 +258,10 @@ export interface IStorage {
   registerAsDeliveryPerson(userId: string, phoneNumber?: string, blockId?: string): Promise<User | undefined>;
   updateUserVoucherBalance(userId: string, amount: string): Promise<User | undefined>;
   incrementUserDeliveries(userId: string): Promise<User | undefined>;
+  updateUserRole(userId: string, role: string): Promise<User | undefined>;
+  linkUserToVendor(userId: string, vendorId: string | null): Promise<User | undefined>;
+  linkUserToStall(userId: string, stallId: string | null): Promise<User | undefined>;
+  getAllUsers(): Promise<User[]>;
   
   // User Preferences
   createUserPreferences(prefs: InsertUserPreferences): Promise<UserPreferences>;
@@ -97,13 +292,95 @@ export interface IStorage {
   createVoucher(voucher: InsertVoucher): Promise<Voucher>;
   getUserVouchers(userId: string, unusedOnly?: boolean): Promise<Voucher[]>;
   useVoucher(voucherId: string): Promise<Voucher | undefined>;
+  
+  // Reservations
+  // Claims `quantity` portions atomically; undefined if the listing is gone, hidden or has too few left
+  reserveListing(listingId: string, userId: string, quantity: number): Promise<ReservationResult | undefined>;
+  getReservation(id: string): Promise<Reservation | undefined>;
+  getReservationsByUser(userId: string): Promise<Reservation[]>;
+  getReservationsByListing(listingId: string): Promise<Reservation[]>;
+  getReservationByPickupCode(pickupCode: string): Promise<Reservation | undefined>;
+  // Only succeeds while the reservation is still "reserved", so a code can be redeemed once
+  // Mark a reservation collected and write its impact ledger entry together; undefined if it was not "reserved"
+  markReservationCollected(id: string, impact: InsertImpactEntry): Promise<Reservation | undefined>;
+  // Cancel a "reserved" reservation and release its portions (see waitlist); undefined if it was not "reserved"
+  cancelReservation(id: string, offerExpiresAt: Date): Promise<Reservation | undefined>;
+  // Hide listings whose pickup window ended before `now`, mark their uncollected reservations as no-shows
+  // and close their waitlists
+  expireEndedListings(now: Date): Promise<ExpiryResult>;
+
+  // Waitlist. Released portions are offered to waiting users oldest first, held until
+  // `offerExpiresAt` (or the end of pickup); whatever nobody is waiting for goes back on sale.
+  joinWaitlist(listingId: string, userId: string, quantity: number): Promise<WaitlistEntry>;
+  getWaitlistEntry(id: string): Promise<WaitlistEntry | undefined>;
+  // Newest first
+  getWaitlistEntriesByUser(userId: string): Promise<WaitlistEntry[]>;
+  // Oldest first
+  getWaitlistByListing(listingId: string): Promise<WaitlistEntry[]>;
+  // Leave while "waiting" or "offered" (releasing the held portions); undefined otherwise
+  leaveWaitlist(id: string, offerExpiresAt: Date): Promise<WaitlistEntry | undefined>;
+  // Turn an unexpired offer into a reservation for the held portions; undefined if there is no such offer
+  claimWaitlistOffer(id: string, now: Date): Promise<ReservationResult | undefined>;
+  // Expire offers that lapsed before `now` and pass their portions on; returns how many expired
+  expireWaitlistOffers(now: Date, offerExpiresAt: Date): Promise<number>;
+
+  // Charity donations
+  // Claim every remaining portion of an opted-in listing at its charity price and log the donation;
+  // undefined if the listing is gone, hidden, sold out or not opted in
+  claimListingForCharity(listingId: string, charityUserId: string): Promise<DonationClaim | undefined>;
+  // Newest first
+  getDonations(scope?: DonationScope): Promise<Donation[]>;
+  getDonationByReservation(reservationId: string): Promise<Donation | undefined>;
+
+  // Impact ledger
+  getImpactTotals(scope?: ImpactScope): Promise<ImpactTotals>;
+  getImpactByCategory(scope?: ImpactScope): Promise<CategoryImpactTotals[]>;
+
+  // Food category weight/emission factor overrides (defaults live in services/impact.ts)
+  getFoodCategoryFactors(): Promise<FoodCategoryFactor[]>;
+  setFoodCategoryFactor(category: FoodCategory, kgPerPortion: number, co2eKgPerKg: number): Promise<FoodCategoryFactor>;
+
+  // Recurring listing templates
+  getListingTemplatesByVendor(vendorId: string): Promise<ListingTemplate[]>;
+  getActiveListingTemplates(): Promise<ListingTemplate[]>;
+  getListingTemplate(id: string): Promise<ListingTemplate | undefined>;
+  createListingTemplate(template: InsertListingTemplate): Promise<ListingTemplate>;
+  updateListingTemplate(id: string, updates: UpdateListingTemplate): Promise<ListingTemplate | undefined>;
+  deleteListingTemplate(id: string): Promise<void>;
+  // Day records on or after `fromDate` ("YYYY-MM-DD"), oldest first
+  getListingTemplateDays(templateId: string, fromDate: string): Promise<ListingTemplateDay[]>;
+  // Adjust or skip one date; undefined if that date has already been published
+  setListingTemplateDay(templateId: string, date: string, updates: UpdateListingTemplateDay): Promise<ListingTemplateDay | undefined>;
+  // Create the date's listing and record it, unless the date was skipped or already published
+  publishListingTemplateDay(templateId: string, date: string, listing: InsertFoodListing): Promise<FoodListing | undefined>;
+
+  // Payments
+  getPayment(id: string): Promise<Payment | undefined>;
+  getPaymentByProviderId(providerPaymentId: string): Promise<Payment | undefined>;
+  // Newest first
+  getPaymentsBySubject(subjectType: PaymentSubjectType, subjectId: string): Promise<Payment[]>;
+  // Record a new payment intent and mark its reservation or delivery request "pending"
+  createPayment(payment: InsertPayment): Promise<Payment>;
+  // Move a payment from `from` to `to` and mirror it on its subject; undefined if it was no longer `from`
+  updatePaymentStatus(id: string, from: PaymentStatus, to: PaymentStatus): Promise<Payment | undefined>;
+}
+
+// A new user's username or email clashed with an existing account
+export class DuplicateUserError extends Error {
+  constructor(readonly field: "username" | "email") {
+    super(`Duplicate ${field}`);
+  }
 }
 
 export class MemStorage implements IStorage {
   private canteens: Map<string, Canteen>;
   private stalls: Map<string, Stall>;
+  private queueSamples: Map<string, QueueSample>;
+  private queueRollups: Map<string, QueueRollup>;
+  private queueTickets: Map<string, QueueTicket>;
   private foodListings: Map<string, FoodListing>;
   private vendors: Map<string, Vendor>;
+  private vendorHoursExceptions: Map<string, VendorHoursException>;
   private ratings: Map<string, Rating>;
   // Added maps for user-related data and campus blocks to support routes in development
   private users: Map<string, User>;
@@ -112,12 +389,25 @@ export class MemStorage implements IStorage {
   private vouchers: Map<string, Voucher>;
   private deliveryRequests: Map<string, DeliveryRequest>;
   private deliveryEarnings: Map<string, DeliveryEarnings>;
+  private reservations: Map<string, Reservation>;
+  private donations: Map<string, Donation>;
+  private waitlistEntries: Map<string, WaitlistEntry>;
+  private impactEntries: Map<string, ImpactEntry>;
+  private foodCategoryFactors: Map<FoodCategory, FoodCategoryFactor>;
+  private listingTemplates: Map<string, ListingTemplate>;
+  private listingTemplateDays: Map<string, ListingTemplateDay>;
+  private payments: Map<string, Payment>;
+  sessionStore: session.Store;
 
   constructor() {
     this.canteens = new Map();
     this.stalls = new Map();
+    this.queueSamples = new Map();
+    this.queueRollups = new Map();
+    this.queueTickets = new Map();
     this.foodListings = new Map();
     this.vendors = new Map();
+    this.vendorHoursExceptions = new Map();
     this.ratings = new Map();
     this.users = new Map();
     this.userPreferences = new Map();
@@ -125,6 +415,17 @@ export class MemStorage implements IStorage {
     this.vouchers = new Map();
     this.deliveryRequests = new Map();
     this.deliveryEarnings = new Map();
+    this.reservations = new Map();
+    this.donations = new Map();
+    this.waitlistEntries = new Map();
+    this.impactEntries = new Map();
+    this.foodCategoryFactors = new Map();
+    this.listingTemplates = new Map();
+    this.listingTemplateDays = new Map();
+    this.payments = new Map();
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000, // prune expired sessions every 24h
+    });
     this.seedInitialData();
   }
 
@@ -159,7 +460,8 @@ export class MemStorage implements IStorage {
       for (let i = 0; i < numStalls; i++) {
         const id = `stall-${stallIndex + 1}`;
         const queue = Math.floor(Math.random() * 20); // 0-19 people
-        const waitTime = Math.ceil(queue * 2.5); // ~2.5 min per person
+        const serviceMinutes = SEED_SERVICE_MINUTES[cuisines[stallIndex % cuisines.length]] ?? 2.5;
+        const waitTime = Math.ceil(queue * serviceMinutes);
         
         this.stalls.set(id, {
           id,
@@ -170,19 +472,25 @@ export class MemStorage implements IStorage {
           estimatedWaitTime: waitTime,
           rating: (Math.random() * 1.5 + 3.5).toFixed(2), // 3.5-5.0
           reviewCount: Math.floor(Math.random() * 200) + 50,
+          dietaryTags: SEED_CUISINE_TAGS[cuisines[stallIndex % cuisines.length]] ?? [],
+          serviceMinutesPerPerson: serviceMinutes.toFixed(2),
+          serviceRateSamples: 0,
+          serviceRateUpdatedAt: null,
         });
         stallIndex++;
       }
       canteen.totalStalls = numStalls;
     });
 
+    this.seedQueueHistory();
+
     // Seed vendors
     const vendorData = [
-      { name: "Sunrise Bakery", type: "bakery", address: "123 Orchard Road", operatingHours: "6:00 AM - 8:00 PM" },
-      { name: "Golden Wok Restaurant", type: "restaurant", address: "456 Chinatown Street", operatingHours: "11:00 AM - 10:00 PM" },
-      { name: "Kopi & Toast Cafe", type: "cafe", address: "789 Marina Bay", operatingHours: "7:00 AM - 6:00 PM" },
-      { name: "Hawker's Delight", type: "hawker", address: "101 East Coast Road", operatingHours: "10:00 AM - 9:00 PM" },
-      { name: "French Patisserie", type: "bakery", address: "234 Somerset Road", operatingHours: "8:00 AM - 7:00 PM" },
+      { name: "Sunrise Bakery", type: "bakery", address: "123 Orchard Road", weeklyHours: dailyHours("06:00", "22:00"), latitude: "1.3048000", longitude: "103.8318000" },
+      { name: "Golden Wok Restaurant", type: "restaurant", address: "456 Chinatown Street", weeklyHours: dailyHours("11:00", "22:00"), latitude: "1.2838000", longitude: "103.8446000" },
+      { name: "Kopi & Toast Cafe", type: "cafe", address: "789 Marina Bay", weeklyHours: dailyHours("07:00", "20:00"), latitude: "1.2834000", longitude: "103.8607000" },
+      { name: "Hawker's Delight", type: "hawker", address: "101 East Coast Road", weeklyHours: [...dailyHours("10:00", "14:30"), ...dailyHours("16:30", "21:00")], latitude: "1.3030000", longitude: "103.9120000" },
+      { name: "French Patisserie", type: "bakery", address: "234 Somerset Road", weeklyHours: dailyHours("08:00", "20:00"), latitude: "1.3006000", longitude: "103.8388000" },
     ];
 
     vendorData.forEach((data, index) => {
@@ -192,10 +500,12 @@ export class MemStorage implements IStorage {
         name: data.name,
         type: data.type,
         address: data.address,
-        operatingHours: data.operatingHours,
+        weeklyHours: data.weeklyHours,
         rating: (Math.random() * 1 + 4).toFixed(2), // 4.0-5.0
         reviewCount: Math.floor(Math.random() * 150) + 30,
         imageUrl: null,
+        latitude: data.latitude,
+        longitude: data.longitude,
       });
     });
 
@@ -220,14 +530,20 @@ export class MemStorage implements IStorage {
         originalPrice: item.original.toFixed(2),
         discountedPrice: item.discounted.toFixed(2),
         quantity: Math.floor(Math.random() * 10) + 5,
-        pickupTimeStart: "17:00",
-        pickupTimeEnd: "19:30",
+        ...seedPickupWindow(),
         imageUrl: item.img,
+        pricingCurve: index === 0 ? SEED_PRICING_CURVE : null,
+        dietaryTags: SEED_LISTING_TAGS[index] ?? [],
+        category: SEED_LISTING_CATEGORIES[index] ?? "other",
+        charityOptIn: SEED_CHARITY_OPT_IN[index] ?? false,
+        charityUnitPrice: "0.00",
         available: true,
         createdAt: new Date(),
       });
     });
 
+    this.listingTemplates.set("template-1", { ...SEED_LISTING_TEMPLATE, id: "template-1", createdAt: new Date() });
+
     // Seed simple campus blocks so recommendation engine has location data in MemStorage
     const blockData = [
       { id: 'block-1', name: 'Block A (North Wing)', shortName: 'BLK-A', nearestCanteenId: 'canteen-1', latitude: '1.2966000', longitude: '103.7764000' },
@@ -244,22 +560,107 @@ export class MemStorage implements IStorage {
       longitude: b.longitude,
     }));
 
-    // Create a demo user and default preferences for development
+    // Create a demo user (password: demo1234) and default preferences for development
     const demoUserId = 'user-demo-1';
     this.users.set(demoUserId, {
       id: demoUserId,
       username: 'demo_user',
       email: 'demo@foodrescue.sg',
-      passwordHash: 'de   mo_hash',
+      passwordHash: hashPasswordSync('demo1234'),
       fullName: 'Demo User',
+      role: 'customer',
+      vendorId: null,
+      stallId: null,
+      phoneNumber: null,
       currentBlockId: 'block-1',
       deliveryAvailable: false,
       isDeliveryPerson: false,
       voucherBalance: '0',
       totalDeliveries: 0,
+      createdAt: new Date(),
+    });
+
+    // Create a demo admin (password: admin1234) for the admin dashboard
+    const adminUserId = 'user-admin-1';
+    this.users.set(adminUserId, {
+      id: adminUserId,
+      username: 'admin',
+      email: 'admin@foodrescue.sg',
+      passwordHash: hashPasswordSync('admin1234'),
+      fullName: 'Platform Admin',
+      role: 'admin',
+      vendorId: null,
+      stallId: null,
+      phoneNumber: null,
+      currentBlockId: null,
+      deliveryAvailable: false,
+      isDeliveryPerson: false,
+      voucherBalance: '0',
+      totalDeliveries: 0,
+      createdAt: new Date(),
+    });
+
+    // Create a vendor staff account for Sunrise Bakery (password: vendor1234)
+    const vendorUserId = 'user-vendor-1';
+    this.users.set(vendorUserId, {
+      id: vendorUserId,
+      username: 'sunrise_bakery',
+      email: 'staff@sunrisebakery.sg',
+      passwordHash: hashPasswordSync('vendor1234'),
+      fullName: 'Sunrise Bakery Staff',
+      role: 'vendor',
+      vendorId: 'vendor-1',
+      stallId: null,
+      phoneNumber: null,
+      currentBlockId: null,
+      deliveryAvailable: false,
+      isDeliveryPerson: false,
+      voucherBalance: '0',
+      totalDeliveries: 0,
+      createdAt: new Date(),
+    });
+
+    // Create a stall staff account for Wok & Roll (password: stall1234) to call queue numbers
+    const stallUserId = 'user-stall-1';
+    this.users.set(stallUserId, {
+      id: stallUserId,
+      username: 'wok_and_roll',
+      email: 'staff@wokandroll.sg',
+      passwordHash: hashPasswordSync('stall1234'),
+      fullName: 'Wok & Roll Staff',
+      role: 'vendor',
+      vendorId: null,
+      stallId: 'stall-1',
+      phoneNumber: null,
+      currentBlockId: null,
+      deliveryAvailable: false,
+      isDeliveryPerson: false,
+      voucherBalance: '0',
+      totalDeliveries: 0,
+      createdAt: new Date(),
+    });
+
+    // Create a verified charity account (password: charity1234) for bulk claims
+    const charityUserId = 'user-charity-1';
+    this.users.set(charityUserId, {
+      id: charityUserId,
+      username: 'food_bank',
+      email: 'rescue@foodbank.sg',
+      passwordHash: hashPasswordSync('charity1234'),
+      fullName: 'Community Food Bank',
+      role: 'charity',
+      vendorId: null,
+      stallId: null,
+      phoneNumber: null,
+      currentBlockId: null,
+      deliveryAvailable: false,
+      isDeliveryPerson: false,
+      voucherBalance: '0',
+      totalDeliveries: 0,
+      createdAt: new Date(),
     });
 
-    this.userPreferences.set(demoUserId, {
+    this.userPreferences.set(`prefs-${demoUserId}`, {
       id: `prefs-${demoUserId}`,
       userId: demoUserId,
       cuisineTypes: ['Chinese', 'Western', 'Japanese'],
@@ -312,7 +713,11 @@ export class MemStorage implements IStorage {
       currentQueue: insertStall.currentQueue ?? 0,
       estimatedWaitTime: insertStall.estimatedWaitTime ?? 0,
       rating: "0",
-      reviewCount: 0 
+      reviewCount: 0,
+      dietaryTags: insertStall.dietaryTags ?? [],
+      serviceMinutesPerPerson: insertStall.serviceMinutesPerPerson ?? "2.50",
+      serviceRateSamples: 0,
+      serviceRateUpdatedAt: null,
     };
     this.stalls.set(id, stall);
     
@@ -334,6 +739,24 @@ export class MemStorage implements IStorage {
     return stall;
   }
 
+  async updateStallServiceRate(id: string, minutesPerPerson: string, peopleServed: number, updatedAt: Date): Promise<Stall | undefined> {
+    const stall = this.stalls.get(id);
+    if (stall) {
+      stall.serviceMinutesPerPerson = minutesPerPerson;
+      stall.serviceRateSamples = peopleServed;
+      stall.serviceRateUpdatedAt = updatedAt;
+    }
+    return stall;
+  }
+
+  async updateStallDietaryTags(id: string, dietaryTags: DietaryTag[]): Promise<Stall | undefined> {
+    const stall = this.stalls.get(id);
+    if (stall) {
+      stall.dietaryTags = dietaryTags;
+    }
+    return stall;
+  }
+
   // Food Listings
   async getAllFoodListings(availableOnly: boolean = false): Promise<FoodListing[]> {
     const listings = Array.from(this.foodListings.values());
@@ -353,6 +776,9 @@ export class MemStorage implements IStorage {
     const listing: FoodListing = {
       ...insertListing,
       id,
+      pricingCurve: insertListing.pricingCurve ?? null,
+      charityOptIn: insertListing.charityOptIn ?? false,
+      charityUnitPrice: insertListing.charityUnitPrice ?? "0.00",
       available: true,
       createdAt: new Date(),
     };
@@ -360,6 +786,14 @@ export class MemStorage implements IStorage {
     return listing;
   }
 
+  async createFoodListings(insertListings: InsertFoodListing[]): Promise<FoodListing[]> {
+    const created: FoodListing[] = [];
+    for (const insertListing of insertListings) {
+      created.push(await this.createFoodListing(insertListing));
+    }
+    return created;
+  }
+
   async updateFoodListingAvailability(id: string, available: boolean): Promise<FoodListing | undefined> {
     const listing = this.foodListings.get(id);
     if (listing) {
@@ -368,6 +802,14 @@ export class MemStorage implements IStorage {
     return listing;
   }
 
+  async updateFoodListing(id: string, updates: UpdateFoodListing): Promise<FoodListing | undefined> {
+    const listing = this.foodListings.get(id);
+    if (listing) {
+      Object.assign(listing, updates);
+    }
+    return listing;
+  }
+
   // Vendors
   async getAllVendors(): Promise<Vendor[]> {
     return Array.from(this.vendors.values());
@@ -384,15 +826,50 @@ export class MemStorage implements IStorage {
       name: insertVendor.name,
       type: insertVendor.type,
       address: insertVendor.address,
-      operatingHours: insertVendor.operatingHours,
+      weeklyHours: insertVendor.weeklyHours ?? [],
       rating: "0",
       reviewCount: 0,
       imageUrl: insertVendor.imageUrl || null,
+      latitude: insertVendor.latitude ?? null,
+      longitude: insertVendor.longitude ?? null,
     };
     this.vendors.set(id, vendor);
     return vendor;
   }
 
+  async updateVendor(id: string, updates: UpdateVendor): Promise<Vendor | undefined> {
+    const vendor = this.vendors.get(id);
+    if (vendor) {
+      Object.assign(vendor, updates);
+    }
+    return vendor;
+  }
+
+  async getVendorHoursExceptions(vendorId?: string, fromDate?: string): Promise<VendorHoursException[]> {
+    return Array.from(this.vendorHoursExceptions.values())
+      .filter(e => (!vendorId || e.vendorId === vendorId) && (!fromDate || e.date >= fromDate))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  async setVendorHoursException(vendorId: string, date: string, input: VendorHoursExceptionInput): Promise<VendorHoursException> {
+    const id = `${vendorId}:${date}`;
+    const exception: VendorHoursException = {
+      id,
+      vendorId,
+      date,
+      closed: input.closed,
+      open: input.closed ? null : input.open ?? null,
+      close: input.closed ? null : input.close ?? null,
+      note: input.note || null,
+    };
+    this.vendorHoursExceptions.set(id, exception);
+    return exception;
+  }
+
+  async deleteVendorHoursException(vendorId: string, date: string): Promise<void> {
+    this.vendorHoursExceptions.delete(`${vendorId}:${date}`);
+  }
+
   // Ratings
   async createRating(insertRating: InsertRating): Promise<Rating> {
     const id = randomUUID();
@@ -461,10 +938,175 @@ export class MemStorage implements IStorage {
     }
   }
 
+  // Four weeks of synthetic queue rollups (every 15 minutes, 07:00-20:00 Singapore time) with
+  // lunch and dinner peaks and quieter weekends, so history charts have something to show.
+  // Raw samples only start with live updates.
+  private seedQueueHistory() {
+    const today = singaporeDateString();
+    const now = Date.now();
+    const peak = (hour: number, centre: number, width: number) => Math.exp(-((hour - centre) ** 2) / (2 * width ** 2));
+
+    this.stalls.forEach((stall) => {
+      const serviceMinutes = parseFloat(stall.serviceMinutesPerPerson);
+      const busiest = Math.floor(Math.random() * 12) + 8; // Lunch-peak queue, 8-19 people
+      for (let day = -28; day <= 0; day++) {
+        const date = addDaysToDateString(today, day);
+        const weekend = [0, 6].includes(singaporeWeekday(date));
+        for (let minutes = 7 * 60; minutes <= 20 * 60; minutes += 15) {
+          const at = singaporeDateTimeAt(date, `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`);
+          if (at.getTime() > now) break;
+
+          const hour = minutes / 60;
+          const level = 0.15 + peak(hour, 12.5, 0.8) + 0.6 * peak(hour, 18.5, 0.9);
+          const noise = Math.floor(Math.random() * 5) - 2;
+          const queue = Math.max(0, Math.round(busiest * level * (weekend ? 0.5 : 1)) + noise);
+          this.addToQueueRollups(stall.id, queue, Math.ceil(queue * serviceMinutes), at);
+        }
+      }
+    });
+  }
+
+  // Queue history
+  private addToQueueRollups(stallId: string, currentQueue: number, estimatedWaitTime: number, at: Date) {
+    for (const resolution of queueRollupResolutions) {
+      const bucketStart = queueBucketStart(at, resolution);
+      const id = queueRollupId(stallId, resolution, bucketStart);
+      const rollup = this.queueRollups.get(id);
+      if (rollup) {
+        rollup.samples++;
+        rollup.queueSum += currentQueue;
+        rollup.waitSum += estimatedWaitTime;
+        rollup.maxQueue = Math.max(rollup.maxQueue, currentQueue);
+        rollup.maxWait = Math.max(rollup.maxWait, estimatedWaitTime);
+      } else {
+        this.queueRollups.set(id, {
+          id,
+          stallId,
+          resolution,
+          bucketStart,
+          samples: 1,
+          queueSum: currentQueue,
+          waitSum: estimatedWaitTime,
+          maxQueue: currentQueue,
+          maxWait: estimatedWaitTime,
+        });
+      }
+    }
+  }
+
+  async recordQueueSample(stallId: string, currentQueue: number, estimatedWaitTime: number, recordedAt: Date): Promise<QueueSample> {
+    const id = randomUUID();
+    const sample: QueueSample = { id, stallId, currentQueue, estimatedWaitTime, recordedAt };
+    this.queueSamples.set(id, sample);
+    this.addToQueueRollups(stallId, currentQueue, estimatedWaitTime, recordedAt);
+    return sample;
+  }
+
+  async getQueueSamples(stallId: string, from: Date, to: Date): Promise<QueueSample[]> {
+    return Array.from(this.queueSamples.values())
+      .filter(s => s.stallId === stallId && s.recordedAt >= from && s.recordedAt <= to)
+      .sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime());
+  }
+
+  async getQueueRollups(stallId: string, resolution: QueueRollupResolution, from: Date, to: Date): Promise<QueueRollup[]> {
+    return Array.from(this.queueRollups.values())
+      .filter(r => r.stallId === stallId && r.resolution === resolution && r.bucketStart >= from && r.bucketStart <= to)
+      .sort((a, b) => a.bucketStart.getTime() - b.bucketStart.getTime());
+  }
+
+  async pruneQueueHistory(samplesBefore: Date, fiveMinuteBefore: Date): Promise<number> {
+    let removed = 0;
+    for (const sample of Array.from(this.queueSamples.values())) {
+      if (sample.recordedAt < samplesBefore) {
+        this.queueSamples.delete(sample.id);
+        removed++;
+      }
+    }
+    for (const rollup of Array.from(this.queueRollups.values())) {
+      if (rollup.resolution === "5m" && rollup.bucketStart < fiveMinuteBefore) {
+        this.queueRollups.delete(rollup.id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  async issueQueueTicket(stallId: string, userId: string, serviceDate: string): Promise<QueueTicket> {
+    const issued = await this.getQueueTicketsByStall(stallId, serviceDate);
+    const id = randomUUID();
+    const ticket: QueueTicket = {
+      id,
+      stallId,
+      userId,
+      serviceDate,
+      number: (issued[issued.length - 1]?.number ?? 0) + 1,
+      status: 'waiting',
+      createdAt: new Date(),
+      calledAt: null,
+      closedAt: null,
+    };
+    this.queueTickets.set(id, ticket);
+    return ticket;
+  }
+
+  async getQueueTicket(id: string): Promise<QueueTicket | undefined> {
+    return this.queueTickets.get(id);
+  }
+
+  async getQueueTicketsByStall(stallId: string, serviceDate: string): Promise<QueueTicket[]> {
+    return Array.from(this.queueTickets.values())
+      .filter(t => t.stallId === stallId && t.serviceDate === serviceDate)
+      .sort((a, b) => a.number - b.number);
+  }
+
+  async getQueueTicketsByUser(userId: string): Promise<QueueTicket[]> {
+    return Array.from(this.queueTickets.values())
+      .filter(t => t.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async advanceQueueTickets(stallId: string, serviceDate: string, outcome: QueueTicketOutcome, now: Date): Promise<QueueAdvanceResult> {
+    const tickets = await this.getQueueTicketsByStall(stallId, serviceDate);
+    const closed = tickets.find(t => t.status === 'called');
+    if (closed) {
+      closed.status = outcome;
+      closed.closedAt = now;
+    }
+    const called = tickets.find(t => t.status === 'waiting');
+    if (called) {
+      called.status = 'called';
+      called.calledAt = now;
+    }
+    return { closed, called };
+  }
+
+  async cancelQueueTicket(id: string, now: Date): Promise<QueueTicket | undefined> {
+    const ticket = this.queueTickets.get(id);
+    if (!ticket || (ticket.status !== 'waiting' && ticket.status !== 'called')) return undefined;
+    ticket.status = 'cancelled';
+    ticket.closedAt = now;
+    return ticket;
+  }
+
+  async expireQueueTickets(serviceDate: string, now: Date): Promise<QueueTicket[]> {
+    const expired: QueueTicket[] = [];
+    this.queueTickets.forEach((ticket) => {
+      if (ticket.serviceDate < serviceDate && (ticket.status === 'waiting' || ticket.status === 'called')) {
+        ticket.status = 'expired';
+        ticket.closedAt = now;
+        expired.push(ticket);
+      }
+    });
+    return expired;
+  }
+
   async deleteVendor(id: string): Promise<void> {
     // Delete all food listings for this vendor first
     const listingsToDelete = Array.from(this.foodListings.values()).filter(l => l.vendorId === id);
     listingsToDelete.forEach(l => this.foodListings.delete(l.id));
+    Array.from(this.vendorHoursExceptions.values())
+      .filter(e => e.vendorId === id)
+      .forEach(e => this.vendorHoursExceptions.delete(e.id));
     this.vendors.delete(id);
   }
 
@@ -497,6 +1139,9 @@ export class MemStorage implements IStorage {
 
   // --- Users & Preferences (MemStorage) ---
   async createUser(insertUser: InsertUser): Promise<User> {
+    if (await this.getUserByUsername(insertUser.username)) throw new DuplicateUserError("username");
+    if (await this.getUserByEmail(insertUser.email)) throw new DuplicateUserError("email");
+
     const id = randomUUID();
     const user: User = {
       id,
@@ -504,11 +1149,16 @@ export class MemStorage implements IStorage {
       email: insertUser.email,
       passwordHash: insertUser.passwordHash || '',
       fullName: insertUser.fullName || '',
+      role: insertUser.role || 'customer',
+      vendorId: insertUser.vendorId || null,
+      stallId: insertUser.stallId || null,
+      phoneNumber: insertUser.phoneNumber || null,
       currentBlockId: (insertUser as any).currentBlockId || null,
       deliveryAvailable: (insertUser as any).deliveryAvailable || false,
       isDeliveryPerson: (insertUser as any).isDeliveryPerson || false,
       voucherBalance: (insertUser as any).voucherBalance || '0',
       totalDeliveries: (insertUser as any).totalDeliveries || 0,
+      createdAt: new Date(),
     };
     this.users.set(id, user);
     return user;
@@ -568,6 +1218,34 @@ export class MemStorage implements IStorage {
     return user;
   }
 
+  async updateUserRole(userId: string, role: string): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (user) {
+      user.role = role;
+    }
+    return user;
+  }
+
+  async linkUserToVendor(userId: string, vendorId: string | null): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (user) {
+      user.vendorId = vendorId;
+    }
+    return user;
+  }
+
+  async linkUserToStall(userId: string, stallId: string | null): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (user) {
+      user.stallId = stallId;
+    }
+    return user;
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return Array.from(this.users.values());
+  }
+
   // Preferences
   async createUserPreferences(insertPrefs: InsertUserPreferences): Promise<UserPreferences> {
     const id = randomUUID();
@@ -635,11 +1313,13 @@ export class MemStorage implements IStorage {
   async createDeliveryRequest(insertRequest: InsertDeliveryRequest): Promise<DeliveryRequest> {
     const id = randomUUID();
     const request: DeliveryRequest = {
+      ...insertRequest,
       id,
-      customerId: insertRequest.customerId,
-      stallId: insertRequest.stallId,
-      deliveryPersonId: insertRequest.deliveryPersonId || null,
-      status: insertRequest.status || 'pending',
+      isPeakHour: insertRequest.isPeakHour ?? false,
+      deliveryBlockId: insertRequest.deliveryBlockId ?? null,
+      deliveryPersonId: null,
+      status: 'pending',
+      paymentStatus: 'unpaid',
       createdAt: new Date(),
       acceptedAt: null,
       deliveredAt: null,
@@ -723,106 +1403,590 @@ export class MemStorage implements IStorage {
     const earnings = await this.getDeliveryPersonEarnings(deliveryPersonId);
     return earnings.reduce((sum, e) => sum + parseFloat(e.totalEarning), 0);
   }
-}
-
 
-// Database Storage using PostgreSQL + Drizzle ORM
-export class DbStorage implements IStorage {
-  private db;
+  // --- Reservations (MemStorage) ---
+  async reserveListing(listingId: string, userId: string, quantity: number): Promise<ReservationResult | undefined> {
+    // No awaits between the check and the decrement, so this is atomic on the event loop
+    const listing = this.foodListings.get(listingId);
+    if (!listing || !listing.available || listing.quantity < quantity) {
+      return undefined;
+    }
 
-  constructor() {
-    const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-    this.db = drizzle(pool);
-  }
+    listing.quantity -= quantity;
+    if (listing.quantity === 0) {
+      listing.available = false;
+    }
 
-  // Canteens
-  async getAllCanteens(): Promise<Canteen[]> {
-    return await this.db.select().from(canteens);
+    return { listing, reservation: this.addReservation(listing, userId, quantity) };
   }
 
-  async getCanteen(id: string): Promise<Canteen | undefined> {
-    const results = await this.db.select().from(canteens).where(eq(canteens.id, id));
-    return results[0];
-  }
+  // Record a reservation at the listing's current price; the caller has already set the portions aside
+  private addReservation(listing: FoodListing, userId: string, quantity: number): Reservation {
+    let pickupCode = generatePickupCode();
+    while (Array.from(this.reservations.values()).some(r => r.pickupCode === pickupCode)) {
+      pickupCode = generatePickupCode();
+    }
 
-  async createCanteen(insertCanteen: InsertCanteen): Promise<Canteen> {
     const id = randomUUID();
-    const results = await this.db.insert(canteens).values({ ...insertCanteen, id, totalStalls: 0 }).returning();
-    return results[0];
+    const unitPrice = currentUnitPrice(listing, new Date());
+    const reservation: Reservation = {
+      id,
+      listingId: listing.id,
+      userId,
+      quantity,
+      unitPrice: unitPrice.toFixed(2),
+      totalPrice: (unitPrice * quantity).toFixed(2),
+      status: 'reserved',
+      paymentStatus: 'unpaid',
+      pickupCode,
+      collectedAt: null,
+      createdAt: new Date(),
+    };
+    this.reservations.set(id, reservation);
+    return reservation;
   }
 
-  // Stalls
-  async getAllStalls(): Promise<Stall[]> {
-    return await this.db.select().from(stalls);
+  async getReservation(id: string): Promise<Reservation | undefined> {
+    return this.reservations.get(id);
   }
 
-  async getStallsByCanteen(canteenId: string): Promise<Stall[]> {
-    return await this.db.select().from(stalls).where(eq(stalls.canteenId, canteenId));
+  async getReservationsByUser(userId: string): Promise<Reservation[]> {
+    return Array.from(this.reservations.values())
+      .filter(r => r.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
 
-  async getStall(id: string): Promise<Stall | undefined> {
-    const results = await this.db.select().from(stalls).where(eq(stalls.id, id));
-    return results[0];
+  async getReservationsByListing(listingId: string): Promise<Reservation[]> {
+    return Array.from(this.reservations.values()).filter(r => r.listingId === listingId);
   }
 
-  async createStall(insertStall: InsertStall): Promise<Stall> {
-    const id = randomUUID();
-    const results = await this.db.insert(stalls).values({ 
-      ...insertStall, 
-      id,
-      rating: "0",
-      reviewCount: 0 
-    }).returning();
-    
-    // Update canteen stall count
-    await this.db
-      .update(canteens)
-      .set({ totalStalls: sql`${canteens.totalStalls} + 1` })
-      .where(eq(canteens.id, insertStall.canteenId));
-    
-    return results[0];
+  async getReservationByPickupCode(pickupCode: string): Promise<Reservation | undefined> {
+    return Array.from(this.reservations.values()).find(r => r.pickupCode === pickupCode);
   }
 
-  async updateStallQueue(id: string, queueNumber: number, waitTime: number): Promise<Stall | undefined> {
-    const results = await this.db
-      .update(stalls)
-      .set({ currentQueue: queueNumber, estimatedWaitTime: waitTime })
-      .where(eq(stalls.id, id))
-      .returning();
-    return results[0];
+  async markReservationCollected(id: string, impact: InsertImpactEntry): Promise<Reservation | undefined> {
+    const reservation = this.reservations.get(id);
+    if (!reservation || reservation.status !== 'reserved') return undefined;
+
+    reservation.status = 'collected';
+    reservation.collectedAt = new Date();
+
+    const entryId = randomUUID();
+    this.impactEntries.set(entryId, { ...impact, id: entryId, donation: impact.donation ?? false, createdAt: reservation.collectedAt });
+    return reservation;
   }
 
-  // Food Listings
-  async getAllFoodListings(availableOnly: boolean = false): Promise<FoodListing[]> {
-    if (availableOnly) {
-      return await this.db.select().from(foodListings).where(eq(foodListings.available, true));
+  async expireEndedListings(now: Date): Promise<ExpiryResult> {
+    const ended = new Set<string>();
+    let expiredListings = 0;
+    for (const listing of Array.from(this.foodListings.values())) {
+      if (listing.pickupTimeEnd.getTime() > now.getTime()) continue;
+      ended.add(listing.id);
+      if (listing.available) {
+        listing.available = false;
+        expiredListings++;
+      }
     }
-    return await this.db.select().from(foodListings);
-  }
 
-  async getFoodListing(id: string): Promise<FoodListing | undefined> {
-    const results = await this.db.select().from(foodListings).where(eq(foodListings.id, id));
-    return results[0];
+    let noShowReservations = 0;
+    for (const reservation of Array.from(this.reservations.values())) {
+      if (reservation.status === 'reserved' && ended.has(reservation.listingId)) {
+        reservation.status = 'no_show';
+        noShowReservations++;
+      }
+    }
+
+    for (const entry of Array.from(this.waitlistEntries.values())) {
+      if ((entry.status === 'waiting' || entry.status === 'offered') && ended.has(entry.listingId)) {
+        entry.status = 'expired';
+      }
+    }
+
+    return { expiredListings, noShowReservations };
   }
 
-  async getFoodListingsByVendor(vendorId: string): Promise<FoodListing[]> {
-    return await this.db.select().from(foodListings).where(eq(foodListings.vendorId, vendorId));
+  async cancelReservation(id: string, offerExpiresAt: Date): Promise<Reservation | undefined> {
+    const reservation = this.reservations.get(id);
+    if (!reservation || reservation.status !== 'reserved') return undefined;
+
+    reservation.status = 'cancelled';
+    const listing = this.foodListings.get(reservation.listingId);
+    if (listing) {
+      this.releasePortions(listing, reservation.quantity, offerExpiresAt);
+    }
+    return reservation;
+  }
+
+  // --- Waitlist (MemStorage) ---
+  // Offer freed portions to waiting users oldest first; the rest go back on sale
+  private releasePortions(listing: FoodListing, quantity: number, offerExpiresAt: Date) {
+    let remaining = quantity;
+    const now = new Date();
+    const open = listing.pickupTimeEnd.getTime() > now.getTime();
+    if (open) {
+      const waiting = Array.from(this.waitlistEntries.values())
+        .filter(e => e.listingId === listing.id && e.status === 'waiting')
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+      for (const entry of waiting) {
+        if (remaining === 0) break;
+        entry.status = 'offered';
+        entry.offeredQuantity = Math.min(remaining, entry.quantity);
+        entry.offerExpiresAt = offerExpiresAt < listing.pickupTimeEnd ? offerExpiresAt : listing.pickupTimeEnd;
+        remaining -= entry.offeredQuantity;
+      }
+    }
+
+    if (remaining > 0) {
+      // Sold-out listings go back on sale; ones the vendor hid stay hidden
+      if (listing.quantity === 0 && open) {
+        listing.available = true;
+      }
+      listing.quantity += remaining;
+    }
   }
 
-  async createFoodListing(insertListing: InsertFoodListing): Promise<FoodListing> {
+  async joinWaitlist(listingId: string, userId: string, quantity: number): Promise<WaitlistEntry> {
     const id = randomUUID();
-    const results = await this.db.insert(foodListings).values({
-      ...insertListing,
+    const entry: WaitlistEntry = {
       id,
-      available: true,
-    }).returning();
-    return results[0];
+      listingId,
+      userId,
+      quantity,
+      status: 'waiting',
+      offeredQuantity: 0,
+      offerExpiresAt: null,
+      reservationId: null,
+      createdAt: new Date(),
+    };
+    this.waitlistEntries.set(id, entry);
+    return entry;
   }
 
-  async updateFoodListingAvailability(id: string, available: boolean): Promise<FoodListing | undefined> {
-    const results = await this.db
-      .update(foodListings)
-      .set({ available })
+  async getWaitlistEntry(id: string): Promise<WaitlistEntry | undefined> {
+    return this.waitlistEntries.get(id);
+  }
+
+  async getWaitlistEntriesByUser(userId: string): Promise<WaitlistEntry[]> {
+    return Array.from(this.waitlistEntries.values())
+      .filter(e => e.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getWaitlistByListing(listingId: string): Promise<WaitlistEntry[]> {
+    return Array.from(this.waitlistEntries.values())
+      .filter(e => e.listingId === listingId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async leaveWaitlist(id: string, offerExpiresAt: Date): Promise<WaitlistEntry | undefined> {
+    const entry = this.waitlistEntries.get(id);
+    if (!entry || (entry.status !== 'waiting' && entry.status !== 'offered')) return undefined;
+
+    const held = entry.status === 'offered' ? entry.offeredQuantity : 0;
+    entry.status = 'left';
+    const listing = this.foodListings.get(entry.listingId);
+    if (listing && held > 0) {
+      this.releasePortions(listing, held, offerExpiresAt);
+    }
+    return entry;
+  }
+
+  async claimWaitlistOffer(id: string, now: Date): Promise<ReservationResult | undefined> {
+    const entry = this.waitlistEntries.get(id);
+    const listing = entry && this.foodListings.get(entry.listingId);
+    if (!entry || !listing || entry.status !== 'offered' || !entry.offerExpiresAt || entry.offerExpiresAt <= now) {
+      return undefined;
+    }
+
+    const reservation = this.addReservation(listing, entry.userId, entry.offeredQuantity);
+    entry.status = 'claimed';
+    entry.reservationId = reservation.id;
+    return { listing, reservation };
+  }
+
+  async expireWaitlistOffers(now: Date, offerExpiresAt: Date): Promise<number> {
+    const lapsed = Array.from(this.waitlistEntries.values())
+      .filter(e => e.status === 'offered' && e.offerExpiresAt && e.offerExpiresAt <= now);
+    for (const entry of lapsed) {
+      const held = entry.offeredQuantity;
+      entry.status = 'expired';
+      const listing = this.foodListings.get(entry.listingId);
+      if (listing) {
+        this.releasePortions(listing, held, offerExpiresAt);
+      }
+    }
+    return lapsed.length;
+  }
+
+  // --- Charity donations (MemStorage) ---
+  async claimListingForCharity(listingId: string, charityUserId: string): Promise<DonationClaim | undefined> {
+    const listing = this.foodListings.get(listingId);
+    if (!listing || !listing.available || !listing.charityOptIn || listing.quantity === 0) {
+      return undefined;
+    }
+
+    const result = await this.reserveListing(listingId, charityUserId, listing.quantity);
+    if (!result) return undefined;
+
+    // reserveListing locked in the public price; charities pay the charity price
+    const { reservation } = result;
+    const unitPrice = parseFloat(listing.charityUnitPrice);
+    reservation.unitPrice = unitPrice.toFixed(2);
+    reservation.totalPrice = (unitPrice * reservation.quantity).toFixed(2);
+
+    const id = randomUUID();
+    const donation: Donation = {
+      id,
+      reservationId: reservation.id,
+      listingId,
+      vendorId: listing.vendorId,
+      charityUserId,
+      quantity: reservation.quantity,
+      amount: reservation.totalPrice,
+      retailValue: (parseFloat(listing.originalPrice) * reservation.quantity).toFixed(2),
+      createdAt: new Date(),
+    };
+    this.donations.set(id, donation);
+    return { ...result, donation };
+  }
+
+  async getDonations(scope: DonationScope = {}): Promise<Donation[]> {
+    return Array.from(this.donations.values())
+      .filter(d => (!scope.charityUserId || d.charityUserId === scope.charityUserId) && (!scope.vendorId || d.vendorId === scope.vendorId))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getDonationByReservation(reservationId: string): Promise<Donation | undefined> {
+    return Array.from(this.donations.values()).find(d => d.reservationId === reservationId);
+  }
+
+  // Impact ledger
+  private impactEntriesIn(scope: ImpactScope): ImpactEntry[] {
+    return Array.from(this.impactEntries.values()).filter(e =>
+      (!scope.userId || e.userId === scope.userId) && (!scope.vendorId || e.vendorId === scope.vendorId)
+    );
+  }
+
+  private sumImpact(entries: ImpactEntry[]): ImpactTotals {
+    return {
+      rescues: entries.length,
+      meals: entries.reduce((sum, e) => sum + e.meals, 0),
+      moneySaved: entries.reduce((sum, e) => sum + parseFloat(e.moneySaved), 0),
+      foodKg: entries.reduce((sum, e) => sum + parseFloat(e.foodKg), 0),
+      co2eKg: entries.reduce((sum, e) => sum + parseFloat(e.co2eKg), 0),
+    };
+  }
+
+  async getImpactTotals(scope: ImpactScope = {}): Promise<ImpactTotals> {
+    return this.sumImpact(this.impactEntriesIn(scope));
+  }
+
+  async getImpactByCategory(scope: ImpactScope = {}): Promise<CategoryImpactTotals[]> {
+    const entries = this.impactEntriesIn(scope);
+    const categories = Array.from(new Set(entries.map(e => e.category)));
+    return categories.map(category => ({
+      category,
+      ...this.sumImpact(entries.filter(e => e.category === category)),
+    }));
+  }
+
+  async getFoodCategoryFactors(): Promise<FoodCategoryFactor[]> {
+    return Array.from(this.foodCategoryFactors.values());
+  }
+
+  async setFoodCategoryFactor(category: FoodCategory, kgPerPortion: number, co2eKgPerKg: number): Promise<FoodCategoryFactor> {
+    const factor: FoodCategoryFactor = {
+      category,
+      kgPerPortion: kgPerPortion.toFixed(3),
+      co2eKgPerKg: co2eKgPerKg.toFixed(2),
+      updatedAt: new Date(),
+    };
+    this.foodCategoryFactors.set(category, factor);
+    return factor;
+  }
+
+  // Recurring listing templates
+  async getListingTemplatesByVendor(vendorId: string): Promise<ListingTemplate[]> {
+    return Array.from(this.listingTemplates.values()).filter(t => t.vendorId === vendorId);
+  }
+
+  async getActiveListingTemplates(): Promise<ListingTemplate[]> {
+    return Array.from(this.listingTemplates.values()).filter(t => t.active);
+  }
+
+  async getListingTemplate(id: string): Promise<ListingTemplate | undefined> {
+    return this.listingTemplates.get(id);
+  }
+
+  async createListingTemplate(insertTemplate: InsertListingTemplate): Promise<ListingTemplate> {
+    const id = randomUUID();
+    const template: ListingTemplate = {
+      ...insertTemplate,
+      id,
+      pricingCurve: insertTemplate.pricingCurve ?? null,
+      active: insertTemplate.active ?? true,
+      createdAt: new Date(),
+    };
+    this.listingTemplates.set(id, template);
+    return template;
+  }
+
+  async updateListingTemplate(id: string, updates: UpdateListingTemplate): Promise<ListingTemplate | undefined> {
+    const template = this.listingTemplates.get(id);
+    if (template) {
+      Object.assign(template, updates);
+    }
+    return template;
+  }
+
+  async deleteListingTemplate(id: string): Promise<void> {
+    this.listingTemplates.delete(id);
+    for (const day of Array.from(this.listingTemplateDays.values())) {
+      if (day.templateId === id) this.listingTemplateDays.delete(day.id);
+    }
+  }
+
+  async getListingTemplateDays(templateId: string, fromDate: string): Promise<ListingTemplateDay[]> {
+    return Array.from(this.listingTemplateDays.values())
+      .filter(d => d.templateId === templateId && d.date >= fromDate)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  private templateDay(templateId: string, date: string): ListingTemplateDay {
+    const id = `${templateId}:${date}`;
+    let day = this.listingTemplateDays.get(id);
+    if (!day) {
+      day = { id, templateId, date, quantity: null, skipped: false, listingId: null };
+      this.listingTemplateDays.set(id, day);
+    }
+    return day;
+  }
+
+  async setListingTemplateDay(templateId: string, date: string, updates: UpdateListingTemplateDay): Promise<ListingTemplateDay | undefined> {
+    const day = this.templateDay(templateId, date);
+    if (day.listingId) return undefined;
+    Object.assign(day, updates);
+    return day;
+  }
+
+  async publishListingTemplateDay(templateId: string, date: string, insertListing: InsertFoodListing): Promise<FoodListing | undefined> {
+    const day = this.templateDay(templateId, date);
+    if (day.listingId || day.skipped) return undefined;
+
+    const listing = await this.createFoodListing(insertListing);
+    day.listingId = listing.id;
+    return listing;
+  }
+
+  // Payments
+  async getPayment(id: string): Promise<Payment | undefined> {
+    return this.payments.get(id);
+  }
+
+  async getPaymentByProviderId(providerPaymentId: string): Promise<Payment | undefined> {
+    return Array.from(this.payments.values()).find(p => p.providerPaymentId === providerPaymentId);
+  }
+
+  async getPaymentsBySubject(subjectType: PaymentSubjectType, subjectId: string): Promise<Payment[]> {
+    return Array.from(this.payments.values())
+      .filter(p => p.subjectType === subjectType && p.subjectId === subjectId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  private setSubjectPaymentStatus(payment: Payment) {
+    const subject = payment.subjectType === "reservation"
+      ? this.reservations.get(payment.subjectId)
+      : this.deliveryRequests.get(payment.subjectId);
+    if (subject) {
+      subject.paymentStatus = payment.status;
+    }
+  }
+
+  async createPayment(insertPayment: InsertPayment): Promise<Payment> {
+    const id = randomUUID();
+    const now = new Date();
+    const payment: Payment = {
+      ...insertPayment,
+      id,
+      currency: insertPayment.currency ?? "SGD",
+      status: "pending",
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.payments.set(id, payment);
+    this.setSubjectPaymentStatus(payment);
+    return payment;
+  }
+
+  async updatePaymentStatus(id: string, from: PaymentStatus, to: PaymentStatus): Promise<Payment | undefined> {
+    const payment = this.payments.get(id);
+    if (!payment || payment.status !== from) return undefined;
+
+    payment.status = to;
+    payment.updatedAt = new Date();
+    this.setSubjectPaymentStatus(payment);
+    return payment;
+  }
+}
+
+
+// Database Storage using PostgreSQL + Drizzle ORM
+// The `tx` handed to DbStorage transaction callbacks
+type DbTransaction = Parameters<Parameters<ReturnType<typeof drizzle>["transaction"]>[0]>[0];
+
+// Pickup codes are random, so a clash with an existing one is retried with a new code
+const PICKUP_CODE_ATTEMPTS = 5;
+
+function isUniqueViolation(error: unknown, constraint: string): boolean {
+  const { code, constraint: violated } = (error ?? {}) as { code?: string; constraint?: string };
+  return code === "23505" && violated === constraint;
+}
+
+export class DbStorage implements IStorage {
+  private db;
+  sessionStore: session.Store;
+
+  constructor() {
+    const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+    this.db = drizzle(pool);
+    this.sessionStore = new PostgresSessionStore({
+      pool: pool as any,
+      createTableIfMissing: true,
+    });
+  }
+
+  // Canteens
+  async getAllCanteens(): Promise<Canteen[]> {
+    return await this.db.select().from(canteens);
+  }
+
+  async getCanteen(id: string): Promise<Canteen | undefined> {
+    const results = await this.db.select().from(canteens).where(eq(canteens.id, id));
+    return results[0];
+  }
+
+  async createCanteen(insertCanteen: InsertCanteen): Promise<Canteen> {
+    const id = randomUUID();
+    const results = await this.db.insert(canteens).values({ ...insertCanteen, id, totalStalls: 0 }).returning();
+    return results[0];
+  }
+
+  // Stalls
+  async getAllStalls(): Promise<Stall[]> {
+    return await this.db.select().from(stalls);
+  }
+
+  async getStallsByCanteen(canteenId: string): Promise<Stall[]> {
+    return await this.db.select().from(stalls).where(eq(stalls.canteenId, canteenId));
+  }
+
+  async getStall(id: string): Promise<Stall | undefined> {
+    const results = await this.db.select().from(stalls).where(eq(stalls.id, id));
+    return results[0];
+  }
+
+  async createStall(insertStall: InsertStall): Promise<Stall> {
+    const id = randomUUID();
+    const results = await this.db.insert(stalls).values({ 
+      ...insertStall, 
+      id,
+      rating: "0",
+      reviewCount: 0 
+    }).returning();
+    
+    // Update canteen stall count
+    await this.db
+      .update(canteens)
+      .set({ totalStalls: sql`${canteens.totalStalls} + 1` })
+      .where(eq(canteens.id, insertStall.canteenId));
+    
+    return results[0];
+  }
+
+  async updateStallQueue(id: string, queueNumber: number, waitTime: number): Promise<Stall | undefined> {
+    const results = await this.db
+      .update(stalls)
+      .set({ currentQueue: queueNumber, estimatedWaitTime: waitTime })
+      .where(eq(stalls.id, id))
+      .returning();
+    return results[0];
+  }
+
+  async updateStallServiceRate(id: string, minutesPerPerson: string, peopleServed: number, updatedAt: Date): Promise<Stall | undefined> {
+    const results = await this.db
+      .update(stalls)
+      .set({
+        serviceMinutesPerPerson: minutesPerPerson,
+        serviceRateSamples: peopleServed,
+        serviceRateUpdatedAt: updatedAt,
+      })
+      .where(eq(stalls.id, id))
+      .returning();
+    return results[0];
+  }
+
+  async updateStallDietaryTags(id: string, dietaryTags: DietaryTag[]): Promise<Stall | undefined> {
+    const results = await this.db
+      .update(stalls)
+      .set({ dietaryTags })
+      .where(eq(stalls.id, id))
+      .returning();
+    return results[0];
+  }
+
+  // Food Listings
+  async getAllFoodListings(availableOnly: boolean = false): Promise<FoodListing[]> {
+    if (availableOnly) {
+      return await this.db.select().from(foodListings).where(eq(foodListings.available, true));
+    }
+    return await this.db.select().from(foodListings);
+  }
+
+  async getFoodListing(id: string): Promise<FoodListing | undefined> {
+    const results = await this.db.select().from(foodListings).where(eq(foodListings.id, id));
+    return results[0];
+  }
+
+  async getFoodListingsByVendor(vendorId: string): Promise<FoodListing[]> {
+    return await this.db.select().from(foodListings).where(eq(foodListings.vendorId, vendorId));
+  }
+
+  async createFoodListing(insertListing: InsertFoodListing): Promise<FoodListing> {
+    const id = randomUUID();
+    const results = await this.db.insert(foodListings).values({
+      ...insertListing,
+      id,
+      available: true,
+    }).returning();
+    return results[0];
+  }
+
+  async createFoodListings(insertListings: InsertFoodListing[]): Promise<FoodListing[]> {
+    if (insertListings.length === 0) {
+      return [];
+    }
+    // A single multi-row insert either stores every listing or none of them
+    return await this.db.insert(foodListings).values(
+      insertListings.map(insertListing => ({ ...insertListing, id: randomUUID(), available: true })),
+    ).returning();
+  }
+
+  async updateFoodListingAvailability(id: string, available: boolean): Promise<FoodListing | undefined> {
+    const results = await this.db
+      .update(foodListings)
+      .set({ available })
+      .where(eq(foodListings.id, id))
+      .returning();
+    return results[0];
+  }
+
+  async updateFoodListing(id: string, updates: UpdateFoodListing): Promise<FoodListing | undefined> {
+    if (Object.keys(updates).length === 0) {
+      return this.getFoodListing(id);
+    }
+    const results = await this.db
+      .update(foodListings)
+      .set(updates)
       .where(eq(foodListings.id, id))
       .returning();
     return results[0];
@@ -849,6 +2013,48 @@ export class DbStorage implements IStorage {
     return results[0];
   }
 
+  async updateVendor(id: string, updates: UpdateVendor): Promise<Vendor | undefined> {
+    if (Object.keys(updates).length === 0) {
+      return this.getVendor(id);
+    }
+    const results = await this.db
+      .update(vendors)
+      .set(updates)
+      .where(eq(vendors.id, id))
+      .returning();
+    return results[0];
+  }
+
+  async getVendorHoursExceptions(vendorId?: string, fromDate?: string): Promise<VendorHoursException[]> {
+    return await this.db
+      .select()
+      .from(vendorHoursExceptions)
+      .where(and(
+        vendorId ? eq(vendorHoursExceptions.vendorId, vendorId) : undefined,
+        fromDate ? gte(vendorHoursExceptions.date, fromDate) : undefined,
+      ))
+      .orderBy(asc(vendorHoursExceptions.date));
+  }
+
+  async setVendorHoursException(vendorId: string, date: string, input: VendorHoursExceptionInput): Promise<VendorHoursException> {
+    const values = {
+      closed: input.closed,
+      open: input.closed ? null : input.open ?? null,
+      close: input.closed ? null : input.close ?? null,
+      note: input.note || null,
+    };
+    const [row] = await this.db
+      .insert(vendorHoursExceptions)
+      .values({ id: `${vendorId}:${date}`, vendorId, date, ...values })
+      .onConflictDoUpdate({ target: vendorHoursExceptions.id, set: values })
+      .returning();
+    return row;
+  }
+
+  async deleteVendorHoursException(vendorId: string, date: string): Promise<void> {
+    await this.db.delete(vendorHoursExceptions).where(eq(vendorHoursExceptions.id, `${vendorId}:${date}`));
+  }
+
   // Canteen Delete
   async deleteCanteen(id: string): Promise<void> {
     // Delete all stalls in this canteen first
@@ -871,10 +2077,169 @@ export class DbStorage implements IStorage {
     }
   }
 
+  // Queue history
+  async recordQueueSample(stallId: string, currentQueue: number, estimatedWaitTime: number, recordedAt: Date): Promise<QueueSample> {
+    return await this.db.transaction(async (tx) => {
+      const [sample] = await tx
+        .insert(queueSamples)
+        .values({ id: randomUUID(), stallId, currentQueue, estimatedWaitTime, recordedAt })
+        .returning();
+
+      for (const resolution of queueRollupResolutions) {
+        const bucketStart = queueBucketStart(recordedAt, resolution);
+        await tx
+          .insert(queueRollups)
+          .values({
+            id: queueRollupId(stallId, resolution, bucketStart),
+            stallId,
+            resolution,
+            bucketStart,
+            samples: 1,
+            queueSum: currentQueue,
+            waitSum: estimatedWaitTime,
+            maxQueue: currentQueue,
+            maxWait: estimatedWaitTime,
+          })
+          .onConflictDoUpdate({
+            target: queueRollups.id,
+            set: {
+              samples: sql`${queueRollups.samples} + 1`,
+              queueSum: sql`${queueRollups.queueSum} + ${currentQueue}`,
+              waitSum: sql`${queueRollups.waitSum} + ${estimatedWaitTime}`,
+              maxQueue: sql`GREATEST(${queueRollups.maxQueue}, ${currentQueue})`,
+              maxWait: sql`GREATEST(${queueRollups.maxWait}, ${estimatedWaitTime})`,
+            },
+          });
+      }
+      return sample;
+    });
+  }
+
+  async getQueueSamples(stallId: string, from: Date, to: Date): Promise<QueueSample[]> {
+    return await this.db
+      .select()
+      .from(queueSamples)
+      .where(and(
+        eq(queueSamples.stallId, stallId),
+        gte(queueSamples.recordedAt, from),
+        lte(queueSamples.recordedAt, to),
+      ))
+      .orderBy(asc(queueSamples.recordedAt));
+  }
+
+  async getQueueRollups(stallId: string, resolution: QueueRollupResolution, from: Date, to: Date): Promise<QueueRollup[]> {
+    return await this.db
+      .select()
+      .from(queueRollups)
+      .where(and(
+        eq(queueRollups.stallId, stallId),
+        eq(queueRollups.resolution, resolution),
+        gte(queueRollups.bucketStart, from),
+        lte(queueRollups.bucketStart, to),
+      ))
+      .orderBy(asc(queueRollups.bucketStart));
+  }
+
+  async pruneQueueHistory(samplesBefore: Date, fiveMinuteBefore: Date): Promise<number> {
+    const samples = await this.db
+      .delete(queueSamples)
+      .where(lt(queueSamples.recordedAt, samplesBefore))
+      .returning({ id: queueSamples.id });
+    const rollups = await this.db
+      .delete(queueRollups)
+      .where(and(eq(queueRollups.resolution, "5m"), lt(queueRollups.bucketStart, fiveMinuteBefore)))
+      .returning({ id: queueRollups.id });
+    return samples.length + rollups.length;
+  }
+
+  async issueQueueTicket(stallId: string, userId: string, serviceDate: string): Promise<QueueTicket> {
+    return await this.db.transaction(async (tx) => {
+      // The upsert locks the counter row, so simultaneous issues queue up for their numbers
+      const [counter] = await tx
+        .insert(queueTicketCounters)
+        .values({ id: `${stallId}:${serviceDate}`, stallId, serviceDate, lastNumber: 1 })
+        .onConflictDoUpdate({
+          target: queueTicketCounters.id,
+          set: { lastNumber: sql`${queueTicketCounters.lastNumber} + 1` },
+        })
+        .returning();
+      const [ticket] = await tx
+        .insert(queueTickets)
+        .values({ id: randomUUID(), stallId, userId, serviceDate, number: counter.lastNumber })
+        .returning();
+      return ticket;
+    });
+  }
+
+  async getQueueTicket(id: string): Promise<QueueTicket | undefined> {
+    const results = await this.db.select().from(queueTickets).where(eq(queueTickets.id, id));
+    return results[0];
+  }
+
+  async getQueueTicketsByStall(stallId: string, serviceDate: string): Promise<QueueTicket[]> {
+    return await this.db
+      .select()
+      .from(queueTickets)
+      .where(and(eq(queueTickets.stallId, stallId), eq(queueTickets.serviceDate, serviceDate)))
+      .orderBy(asc(queueTickets.number));
+  }
+
+  async getQueueTicketsByUser(userId: string): Promise<QueueTicket[]> {
+    return await this.db
+      .select()
+      .from(queueTickets)
+      .where(eq(queueTickets.userId, userId))
+      .orderBy(desc(queueTickets.createdAt));
+  }
+
+  async advanceQueueTickets(stallId: string, serviceDate: string, outcome: QueueTicketOutcome, now: Date): Promise<QueueAdvanceResult> {
+    return await this.db.transaction(async (tx) => {
+      const day = and(eq(queueTickets.stallId, stallId), eq(queueTickets.serviceDate, serviceDate));
+      const [closed] = await tx
+        .update(queueTickets)
+        .set({ status: outcome, closedAt: now })
+        .where(and(day, eq(queueTickets.status, "called")))
+        .returning();
+
+      const [next] = await tx
+        .select()
+        .from(queueTickets)
+        .where(and(day, eq(queueTickets.status, "waiting")))
+        .orderBy(asc(queueTickets.number))
+        .limit(1);
+      if (!next) return { closed };
+
+      const [called] = await tx
+        .update(queueTickets)
+        .set({ status: "called", calledAt: now })
+        .where(and(eq(queueTickets.id, next.id), eq(queueTickets.status, "waiting")))
+        .returning();
+      return { closed, called };
+    });
+  }
+
+  async cancelQueueTicket(id: string, now: Date): Promise<QueueTicket | undefined> {
+    const results = await this.db
+      .update(queueTickets)
+      .set({ status: "cancelled", closedAt: now })
+      .where(and(eq(queueTickets.id, id), inArray(queueTickets.status, ["waiting", "called"])))
+      .returning();
+    return results[0];
+  }
+
+  async expireQueueTickets(serviceDate: string, now: Date): Promise<QueueTicket[]> {
+    return await this.db
+      .update(queueTickets)
+      .set({ status: "expired", closedAt: now })
+      .where(and(lt(queueTickets.serviceDate, serviceDate), inArray(queueTickets.status, ["waiting", "called"])))
+      .returning();
+  }
+
   // Vendor Delete
   async deleteVendor(id: string): Promise<void> {
     // Delete all food listings for this vendor first
     await this.db.delete(foodListings).where(eq(foodListings.vendorId, id));
+    await this.db.delete(vendorHoursExceptions).where(eq(vendorHoursExceptions.vendorId, id));
     // Delete the vendor
     await this.db.delete(vendors).where(eq(vendors.id, id));
   }
@@ -971,7 +2336,8 @@ export class DbStorage implements IStorage {
       for (let i = 0; i < numStalls; i++) {
         const id = `stall-${stallIndex + 1}`;
         const queue = Math.floor(Math.random() * 20); // 0-19 people
-        const waitTime = Math.ceil(queue * 2.5); // ~2.5 min per person
+        const serviceMinutes = SEED_SERVICE_MINUTES[cuisines[stallIndex % cuisines.length]] ?? 2.5;
+        const waitTime = Math.ceil(queue * serviceMinutes);
         
         await this.db.insert(stalls).values({
           id,
@@ -982,6 +2348,8 @@ export class DbStorage implements IStorage {
           estimatedWaitTime: waitTime,
           rating: (Math.random() * 1.5 + 3.5).toFixed(2), // 3.5-5.0
           reviewCount: Math.floor(Math.random() * 200) + 50,
+          dietaryTags: SEED_CUISINE_TAGS[cuisines[stallIndex % cuisines.length]] ?? [],
+          serviceMinutesPerPerson: serviceMinutes.toFixed(2),
         });
         stallIndex++;
       }
@@ -995,11 +2363,11 @@ export class DbStorage implements IStorage {
 
     // Seed vendors
     const vendorData = [
-      { name: "Sunrise Bakery", type: "bakery", address: "123 Orchard Road", operatingHours: "6:00 AM - 8:00 PM" },
-      { name: "Golden Wok Restaurant", type: "restaurant", address: "456 Chinatown Street", operatingHours: "11:00 AM - 10:00 PM" },
-      { name: "Kopi & Toast Cafe", type: "cafe", address: "789 Marina Bay", operatingHours: "7:00 AM - 6:00 PM" },
-      { name: "Hawker's Delight", type: "hawker", address: "101 East Coast Road", operatingHours: "10:00 AM - 9:00 PM" },
-      { name: "French Patisserie", type: "bakery", address: "234 Somerset Road", operatingHours: "8:00 AM - 7:00 PM" },
+      { name: "Sunrise Bakery", type: "bakery", address: "123 Orchard Road", weeklyHours: dailyHours("06:00", "22:00"), latitude: "1.3048000", longitude: "103.8318000" },
+      { name: "Golden Wok Restaurant", type: "restaurant", address: "456 Chinatown Street", weeklyHours: dailyHours("11:00", "22:00"), latitude: "1.2838000", longitude: "103.8446000" },
+      { name: "Kopi & Toast Cafe", type: "cafe", address: "789 Marina Bay", weeklyHours: dailyHours("07:00", "20:00"), latitude: "1.2834000", longitude: "103.8607000" },
+      { name: "Hawker's Delight", type: "hawker", address: "101 East Coast Road", weeklyHours: [...dailyHours("10:00", "14:30"), ...dailyHours("16:30", "21:00")], latitude: "1.3030000", longitude: "103.9120000" },
+      { name: "French Patisserie", type: "bakery", address: "234 Somerset Road", weeklyHours: dailyHours("08:00", "20:00"), latitude: "1.3006000", longitude: "103.8388000" },
     ];
 
     for (let i = 0; i < vendorData.length; i++) {
@@ -1035,13 +2403,18 @@ export class DbStorage implements IStorage {
         originalPrice: item.original.toFixed(2),
         discountedPrice: item.discounted.toFixed(2),
         quantity: Math.floor(Math.random() * 10) + 5,
-        pickupTimeStart: "17:00",
-        pickupTimeEnd: "19:30",
+        ...seedPickupWindow(),
         imageUrl: item.img,
+        pricingCurve: i === 0 ? SEED_PRICING_CURVE : null,
+        dietaryTags: SEED_LISTING_TAGS[i] ?? [],
+        category: SEED_LISTING_CATEGORIES[i] ?? "other",
+        charityOptIn: SEED_CHARITY_OPT_IN[i] ?? false,
         available: true,
       });
     }
 
+    await this.db.insert(listingTemplates).values({ ...SEED_LISTING_TEMPLATE, id: "template-1" });
+
     // Seed campus blocks
     const blockData = [
       { name: "Block A (North Wing)", shortName: "BLK-A", nearestCanteenId: "canteen-1", lat: 1.2966, lng: 103.7764 },
@@ -1072,8 +2445,14 @@ export class DbStorage implements IStorage {
   // Users
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = randomUUID();
-    const results = await this.db.insert(users).values({ ...insertUser, id }).returning();
-    return results[0];
+    try {
+      const results = await this.db.insert(users).values({ ...insertUser, id }).returning();
+      return results[0];
+    } catch (error) {
+      if (isUniqueViolation(error, "users_username_unique")) throw new DuplicateUserError("username");
+      if (isUniqueViolation(error, "users_email_unique")) throw new DuplicateUserError("email");
+      throw error;
+    }
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -1149,6 +2528,37 @@ export class DbStorage implements IStorage {
     return results[0];
   }
 
+  async updateUserRole(userId: string, role: string): Promise<User | undefined> {
+    const results = await this.db
+      .update(users)
+      .set({ role })
+      .where(eq(users.id, userId))
+      .returning();
+    return results[0];
+  }
+
+  async linkUserToVendor(userId: string, vendorId: string | null): Promise<User | undefined> {
+    const results = await this.db
+      .update(users)
+      .set({ vendorId })
+      .where(eq(users.id, userId))
+      .returning();
+    return results[0];
+  }
+
+  async linkUserToStall(userId: string, stallId: string | null): Promise<User | undefined> {
+    const results = await this.db
+      .update(users)
+      .set({ stallId })
+      .where(eq(users.id, userId))
+      .returning();
+    return results[0];
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return await this.db.select().from(users);
+  }
+
   // User Preferences
   async createUserPreferences(insertPrefs: InsertUserPreferences): Promise<UserPreferences> {
     const id = randomUUID();
@@ -1293,6 +2703,557 @@ export class DbStorage implements IStorage {
     return row;
   }
 
+  // Reservations
+  async reserveListing(listingId: string, userId: string, quantity: number): Promise<ReservationResult | undefined> {
+    return await this.db.transaction(async (tx) => {
+      // Conditional decrement: only succeeds if enough portions remain, so concurrent
+      // claims can never oversell. Both SET expressions see the pre-update quantity.
+      const [listing] = await tx
+        .update(foodListings)
+        .set({
+          quantity: sql`${foodListings.quantity} - ${quantity}`,
+          available: sql`${foodListings.quantity} - ${quantity} > 0`,
+        })
+        .where(and(
+          eq(foodListings.id, listingId),
+          eq(foodListings.available, true),
+          gte(foodListings.quantity, quantity),
+        ))
+        .returning();
+
+      if (!listing) {
+        return undefined;
+      }
+
+      // Lock in the dynamic price at the moment of claim
+      const unitPrice = currentUnitPrice(listing, new Date());
+      const reservation = await this.insertReservation(tx, {
+        id: randomUUID(),
+        listingId,
+        userId,
+        quantity,
+        unitPrice: unitPrice.toFixed(2),
+        totalPrice: (unitPrice * quantity).toFixed(2),
+      });
+
+      return { listing, reservation };
+    });
+  }
+
+  // Insert a reservation with a fresh pickup code. Each attempt runs in a savepoint, so a
+  // clash with an existing code can be retried without aborting the caller's transaction.
+  private async insertReservation(tx: DbTransaction, values: Omit<typeof reservations.$inferInsert, "pickupCode">): Promise<Reservation> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await tx.transaction(async (savepoint) => {
+          const [reservation] = await savepoint
+            .insert(reservations)
+            .values({ ...values, pickupCode: generatePickupCode() })
+            .returning();
+          return reservation;
+        });
+      } catch (error) {
+        if (attempt >= PICKUP_CODE_ATTEMPTS || !isUniqueViolation(error, "reservations_pickup_code_unique")) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  async getReservation(id: string): Promise<Reservation | undefined> {
+    const results = await this.db.select().from(reservations).where(eq(reservations.id, id));
+    return results[0];
+  }
+
+  async getReservationsByUser(userId: string): Promise<Reservation[]> {
+    return await this.db
+      .select()
+      .from(reservations)
+      .where(eq(reservations.userId, userId))
+      .orderBy(desc(reservations.createdAt));
+  }
+
+  async getReservationsByListing(listingId: string): Promise<Reservation[]> {
+    return await this.db.select().from(reservations).where(eq(reservations.listingId, listingId));
+  }
+
+  async getReservationByPickupCode(pickupCode: string): Promise<Reservation | undefined> {
+    const results = await this.db.select().from(reservations).where(eq(reservations.pickupCode, pickupCode));
+    return results[0];
+  }
+
+  async markReservationCollected(id: string, impact: InsertImpactEntry): Promise<Reservation | undefined> {
+    return await this.db.transaction(async (tx) => {
+      const [row] = await tx
+        .update(reservations)
+        .set({ status: "collected", collectedAt: new Date() })
+        .where(and(eq(reservations.id, id), eq(reservations.status, "reserved")))
+        .returning();
+      if (!row) return undefined;
+
+      await tx.insert(impactEntries).values({ ...impact, id: randomUUID() });
+      return row;
+    });
+  }
+
+  async expireEndedListings(now: Date): Promise<ExpiryResult> {
+    const expired = await this.db
+      .update(foodListings)
+      .set({ available: false })
+      .where(and(eq(foodListings.available, true), lte(foodListings.pickupTimeEnd, now)))
+      .returning({ id: foodListings.id });
+
+    const noShows = await this.db
+      .update(reservations)
+      .set({ status: "no_show" })
+      .where(and(
+        eq(reservations.status, "reserved"),
+        inArray(
+          reservations.listingId,
+          this.db.select({ id: foodListings.id }).from(foodListings).where(lte(foodListings.pickupTimeEnd, now)),
+        ),
+      ))
+      .returning({ id: reservations.id });
+
+    await this.db
+      .update(waitlistEntries)
+      .set({ status: "expired" })
+      .where(and(
+        inArray(waitlistEntries.status, ["waiting", "offered"]),
+        inArray(
+          waitlistEntries.listingId,
+          this.db.select({ id: foodListings.id }).from(foodListings).where(lte(foodListings.pickupTimeEnd, now)),
+        ),
+      ));
+
+    return { expiredListings: expired.length, noShowReservations: noShows.length };
+  }
+
+  async cancelReservation(id: string, offerExpiresAt: Date): Promise<Reservation | undefined> {
+    return await this.db.transaction(async (tx) => {
+      const [row] = await tx
+        .update(reservations)
+        .set({ status: "cancelled" })
+        .where(and(eq(reservations.id, id), eq(reservations.status, "reserved")))
+        .returning();
+      if (!row) return undefined;
+
+      await this.releasePortions(tx, row.listingId, row.quantity, offerExpiresAt);
+      return row;
+    });
+  }
+
+  // Waitlist
+  // Offer freed portions to waiting users oldest first; the rest go back on sale
+  private async releasePortions(tx: DbTransaction, listingId: string, quantity: number, offerExpiresAt: Date) {
+    const [listing] = await tx.select().from(foodListings).where(eq(foodListings.id, listingId));
+    if (!listing) return;
+
+    let remaining = quantity;
+    const open = listing.pickupTimeEnd.getTime() > Date.now();
+    if (open) {
+      const waiting = await tx
+        .select()
+        .from(waitlistEntries)
+        .where(and(eq(waitlistEntries.listingId, listingId), eq(waitlistEntries.status, "waiting")))
+        .orderBy(asc(waitlistEntries.createdAt));
+      for (const entry of waiting) {
+        if (remaining === 0) break;
+        const offered = Math.min(remaining, entry.quantity);
+        // Conditional, so an entry another release just offered to is skipped
+        const [updated] = await tx
+          .update(waitlistEntries)
+          .set({
+            status: "offered",
+            offeredQuantity: offered,
+            offerExpiresAt: offerExpiresAt < listing.pickupTimeEnd ? offerExpiresAt : listing.pickupTimeEnd,
+          })
+          .where(and(eq(waitlistEntries.id, entry.id), eq(waitlistEntries.status, "waiting")))
+          .returning();
+        if (updated) remaining -= offered;
+      }
+    }
+
+    if (remaining > 0) {
+      // Sold-out listings go back on sale; ones the vendor hid stay hidden
+      await tx
+        .update(foodListings)
+        .set({
+          quantity: sql`${foodListings.quantity} + ${remaining}`,
+          available: open ? sql`${foodListings.available} OR ${foodListings.quantity} = 0` : foodListings.available,
+        })
+        .where(eq(foodListings.id, listingId));
+    }
+  }
+
+  async joinWaitlist(listingId: string, userId: string, quantity: number): Promise<WaitlistEntry> {
+    const results = await this.db
+      .insert(waitlistEntries)
+      .values({ id: randomUUID(), listingId, userId, quantity })
+      .returning();
+    return results[0];
+  }
+
+  async getWaitlistEntry(id: string): Promise<WaitlistEntry | undefined> {
+    const results = await this.db.select().from(waitlistEntries).where(eq(waitlistEntries.id, id));
+    return results[0];
+  }
+
+  async getWaitlistEntriesByUser(userId: string): Promise<WaitlistEntry[]> {
+    return await this.db
+      .select()
+      .from(waitlistEntries)
+      .where(eq(waitlistEntries.userId, userId))
+      .orderBy(desc(waitlistEntries.createdAt));
+  }
+
+  async getWaitlistByListing(listingId: string): Promise<WaitlistEntry[]> {
+    return await this.db
+      .select()
+      .from(waitlistEntries)
+      .where(eq(waitlistEntries.listingId, listingId))
+      .orderBy(asc(waitlistEntries.createdAt));
+  }
+
+  async leaveWaitlist(id: string, offerExpiresAt: Date): Promise<WaitlistEntry | undefined> {
+    return await this.db.transaction(async (tx) => {
+      const [current] = await tx.select().from(waitlistEntries).where(eq(waitlistEntries.id, id));
+      if (!current || (current.status !== "waiting" && current.status !== "offered")) return undefined;
+
+      const [entry] = await tx
+        .update(waitlistEntries)
+        .set({ status: "left" })
+        .where(and(eq(waitlistEntries.id, id), eq(waitlistEntries.status, current.status)))
+        .returning();
+      if (!entry) return undefined;
+
+      if (current.status === "offered" && current.offeredQuantity > 0) {
+        await this.releasePortions(tx, entry.listingId, current.offeredQuantity, offerExpiresAt);
+      }
+      return entry;
+    });
+  }
+
+  async claimWaitlistOffer(id: string, now: Date): Promise<ReservationResult | undefined> {
+    return await this.db.transaction(async (tx) => {
+      const reservationId = randomUUID();
+      const [entry] = await tx
+        .update(waitlistEntries)
+        .set({ status: "claimed", reservationId })
+        .where(and(
+          eq(waitlistEntries.id, id),
+          eq(waitlistEntries.status, "offered"),
+          gt(waitlistEntries.offerExpiresAt, now),
+        ))
+        .returning();
+      if (!entry) return undefined;
+
+      const [listing] = await tx.select().from(foodListings).where(eq(foodListings.id, entry.listingId));
+      if (!listing) return undefined;
+
+      // The portions were set aside when offered; only the price is locked in now
+      const unitPrice = currentUnitPrice(listing, now);
+      const reservation = await this.insertReservation(tx, {
+        id: reservationId,
+        listingId: listing.id,
+        userId: entry.userId,
+        quantity: entry.offeredQuantity,
+        unitPrice: unitPrice.toFixed(2),
+        totalPrice: (unitPrice * entry.offeredQuantity).toFixed(2),
+      });
+
+      return { listing, reservation };
+    });
+  }
+
+  async expireWaitlistOffers(now: Date, offerExpiresAt: Date): Promise<number> {
+    const lapsed = await this.db
+      .select()
+      .from(waitlistEntries)
+      .where(and(eq(waitlistEntries.status, "offered"), lte(waitlistEntries.offerExpiresAt, now)));
+
+    let expired = 0;
+    for (const entry of lapsed) {
+      const released = await this.db.transaction(async (tx) => {
+        const [row] = await tx
+          .update(waitlistEntries)
+          .set({ status: "expired" })
+          .where(and(eq(waitlistEntries.id, entry.id), eq(waitlistEntries.status, "offered")))
+          .returning();
+        if (!row) return false;
+
+        await this.releasePortions(tx, row.listingId, row.offeredQuantity, offerExpiresAt);
+        return true;
+      });
+      if (released) expired++;
+    }
+    return expired;
+  }
+
+  // Charity donations
+  async claimListingForCharity(listingId: string, charityUserId: string): Promise<DonationClaim | undefined> {
+    return await this.db.transaction(async (tx) => {
+      // Take whatever is left in one conditional update. The returned row has quantity 0,
+      // so the claimed amount is read first and the update only matches if it is unchanged.
+      const [current] = await tx.select().from(foodListings).where(eq(foodListings.id, listingId));
+      if (!current || !current.available || !current.charityOptIn || current.quantity === 0) {
+        return undefined;
+      }
+
+      const [listing] = await tx
+        .update(foodListings)
+        .set({ quantity: 0, available: false })
+        .where(and(
+          eq(foodListings.id, listingId),
+          eq(foodListings.available, true),
+          eq(foodListings.quantity, current.quantity),
+        ))
+        .returning();
+      if (!listing) {
+        return undefined;
+      }
+
+      const quantity = current.quantity;
+      const unitPrice = parseFloat(listing.charityUnitPrice);
+      const reservation = await this.insertReservation(tx, {
+        id: randomUUID(),
+        listingId,
+        userId: charityUserId,
+        quantity,
+        unitPrice: unitPrice.toFixed(2),
+        totalPrice: (unitPrice * quantity).toFixed(2),
+      });
+
+      const [donation] = await tx
+        .insert(donations)
+        .values({
+          id: randomUUID(),
+          reservationId: reservation.id,
+          listingId,
+          vendorId: listing.vendorId,
+          charityUserId,
+          quantity,
+          amount: reservation.totalPrice,
+          retailValue: (parseFloat(listing.originalPrice) * quantity).toFixed(2),
+        })
+        .returning();
+
+      return { listing, reservation, donation };
+    });
+  }
+
+  async getDonations(scope: DonationScope = {}): Promise<Donation[]> {
+    return await this.db
+      .select()
+      .from(donations)
+      .where(and(
+        scope.charityUserId ? eq(donations.charityUserId, scope.charityUserId) : undefined,
+        scope.vendorId ? eq(donations.vendorId, scope.vendorId) : undefined,
+      ))
+      .orderBy(desc(donations.createdAt));
+  }
+
+  async getDonationByReservation(reservationId: string): Promise<Donation | undefined> {
+    const results = await this.db.select().from(donations).where(eq(donations.reservationId, reservationId));
+    return results[0];
+  }
+
+  // Impact ledger
+  private impactScopeFilter(scope: ImpactScope) {
+    const conditions = [];
+    if (scope.userId) conditions.push(eq(impactEntries.userId, scope.userId));
+    if (scope.vendorId) conditions.push(eq(impactEntries.vendorId, scope.vendorId));
+    return and(...conditions);
+  }
+
+  private impactSums = {
+    rescues: sql<number>`count(*)::int`,
+    meals: sql<number>`coalesce(sum(${impactEntries.meals}), 0)::int`,
+    moneySaved: sql<string>`coalesce(sum(${impactEntries.moneySaved}), 0)`,
+    foodKg: sql<string>`coalesce(sum(${impactEntries.foodKg}), 0)`,
+    co2eKg: sql<string>`coalesce(sum(${impactEntries.co2eKg}), 0)`,
+  };
+
+  async getImpactTotals(scope: ImpactScope = {}): Promise<ImpactTotals> {
+    const [row] = await this.db
+      .select(this.impactSums)
+      .from(impactEntries)
+      .where(this.impactScopeFilter(scope));
+
+    return {
+      rescues: row.rescues,
+      meals: row.meals,
+      moneySaved: parseFloat(row.moneySaved),
+      foodKg: parseFloat(row.foodKg),
+      co2eKg: parseFloat(row.co2eKg),
+    };
+  }
+
+  async getImpactByCategory(scope: ImpactScope = {}): Promise<CategoryImpactTotals[]> {
+    const rows = await this.db
+      .select({ category: impactEntries.category, ...this.impactSums })
+      .from(impactEntries)
+      .where(this.impactScopeFilter(scope))
+      .groupBy(impactEntries.category);
+
+    return rows.map(row => ({
+      category: row.category,
+      rescues: row.rescues,
+      meals: row.meals,
+      moneySaved: parseFloat(row.moneySaved),
+      foodKg: parseFloat(row.foodKg),
+      co2eKg: parseFloat(row.co2eKg),
+    }));
+  }
+
+  async getFoodCategoryFactors(): Promise<FoodCategoryFactor[]> {
+    return await this.db.select().from(foodCategoryFactors);
+  }
+
+  async setFoodCategoryFactor(category: FoodCategory, kgPerPortion: number, co2eKgPerKg: number): Promise<FoodCategoryFactor> {
+    const values = {
+      kgPerPortion: kgPerPortion.toFixed(3),
+      co2eKgPerKg: co2eKgPerKg.toFixed(2),
+      updatedAt: new Date(),
+    };
+    const [row] = await this.db
+      .insert(foodCategoryFactors)
+      .values({ category, ...values })
+      .onConflictDoUpdate({ target: foodCategoryFactors.category, set: values })
+      .returning();
+    return row;
+  }
+
+  // Recurring listing templates
+  async getListingTemplatesByVendor(vendorId: string): Promise<ListingTemplate[]> {
+    return await this.db.select().from(listingTemplates).where(eq(listingTemplates.vendorId, vendorId));
+  }
+
+  async getActiveListingTemplates(): Promise<ListingTemplate[]> {
+    return await this.db.select().from(listingTemplates).where(eq(listingTemplates.active, true));
+  }
+
+  async getListingTemplate(id: string): Promise<ListingTemplate | undefined> {
+    const results = await this.db.select().from(listingTemplates).where(eq(listingTemplates.id, id));
+    return results[0];
+  }
+
+  async createListingTemplate(insertTemplate: InsertListingTemplate): Promise<ListingTemplate> {
+    const id = randomUUID();
+    const results = await this.db.insert(listingTemplates).values({ ...insertTemplate, id }).returning();
+    return results[0];
+  }
+
+  async updateListingTemplate(id: string, updates: UpdateListingTemplate): Promise<ListingTemplate | undefined> {
+    if (Object.keys(updates).length === 0) {
+      return this.getListingTemplate(id);
+    }
+    const results = await this.db
+      .update(listingTemplates)
+      .set(updates)
+      .where(eq(listingTemplates.id, id))
+      .returning();
+    return results[0];
+  }
+
+  async deleteListingTemplate(id: string): Promise<void> {
+    await this.db.delete(listingTemplateDays).where(eq(listingTemplateDays.templateId, id));
+    await this.db.delete(listingTemplates).where(eq(listingTemplates.id, id));
+  }
+
+  async getListingTemplateDays(templateId: string, fromDate: string): Promise<ListingTemplateDay[]> {
+    return await this.db
+      .select()
+      .from(listingTemplateDays)
+      .where(and(eq(listingTemplateDays.templateId, templateId), gte(listingTemplateDays.date, fromDate)))
+      .orderBy(asc(listingTemplateDays.date));
+  }
+
+  async setListingTemplateDay(templateId: string, date: string, updates: UpdateListingTemplateDay): Promise<ListingTemplateDay | undefined> {
+    const [row] = await this.db
+      .insert(listingTemplateDays)
+      .values({ id: `${templateId}:${date}`, templateId, date, ...updates })
+      .onConflictDoUpdate({
+        target: listingTemplateDays.id,
+        set: updates,
+        setWhere: isNull(listingTemplateDays.listingId),
+      })
+      .returning();
+    return row;
+  }
+
+  async publishListingTemplateDay(templateId: string, date: string, insertListing: InsertFoodListing): Promise<FoodListing | undefined> {
+    const dayId = `${templateId}:${date}`;
+    const listingId = randomUUID();
+    return await this.db.transaction(async (tx) => {
+      await tx.insert(listingTemplateDays).values({ id: dayId, templateId, date }).onConflictDoNothing();
+
+      // Claim the date first so two scheduler runs can't both publish it
+      const [claimed] = await tx
+        .update(listingTemplateDays)
+        .set({ listingId })
+        .where(and(
+          eq(listingTemplateDays.id, dayId),
+          isNull(listingTemplateDays.listingId),
+          eq(listingTemplateDays.skipped, false),
+        ))
+        .returning();
+      if (!claimed) return undefined;
+
+      const [listing] = await tx.insert(foodListings).values({ ...insertListing, id: listingId, available: true }).returning();
+      return listing;
+    });
+  }
+
+  // Payments
+  async getPayment(id: string): Promise<Payment | undefined> {
+    const results = await this.db.select().from(payments).where(eq(payments.id, id));
+    return results[0];
+  }
+
+  async getPaymentByProviderId(providerPaymentId: string): Promise<Payment | undefined> {
+    const results = await this.db.select().from(payments).where(eq(payments.providerPaymentId, providerPaymentId));
+    return results[0];
+  }
+
+  async getPaymentsBySubject(subjectType: PaymentSubjectType, subjectId: string): Promise<Payment[]> {
+    return await this.db
+      .select()
+      .from(payments)
+      .where(and(eq(payments.subjectType, subjectType), eq(payments.subjectId, subjectId)))
+      .orderBy(desc(payments.createdAt));
+  }
+
+  async createPayment(insertPayment: InsertPayment): Promise<Payment> {
+    return await this.db.transaction(async (tx) => {
+      const [payment] = await tx.insert(payments).values({ ...insertPayment, id: randomUUID() }).returning();
+      if (payment.subjectType === "reservation") {
+        await tx.update(reservations).set({ paymentStatus: "pending" }).where(eq(reservations.id, payment.subjectId));
+      } else {
+        await tx.update(deliveryRequests).set({ paymentStatus: "pending" }).where(eq(deliveryRequests.id, payment.subjectId));
+      }
+      return payment;
+    });
+  }
+
+  async updatePaymentStatus(id: string, from: PaymentStatus, to: PaymentStatus): Promise<Payment | undefined> {
+    return await this.db.transaction(async (tx) => {
+      // Conditional on the current status, so a redelivered webhook is applied once
+      const [payment] = await tx
+        .update(payments)
+        .set({ status: to, updatedAt: new Date() })
+        .where(and(eq(payments.id, id), eq(payments.status, from)))
+        .returning();
+      if (!payment) return undefined;
+
+      if (payment.subjectType === "reservation") {
+        await tx.update(reservations).set({ paymentStatus: to }).where(eq(reservations.id, payment.subjectId));
+      } else {
+        await tx.update(deliveryRequests).set({ paymentStatus: to }).where(eq(deliveryRequests.id, payment.subjectId));
+      }
+      return payment;
+    });
+  }
 }
 
 // Use in-memory storage in development so the app can run without a live DB.
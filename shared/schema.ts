@@ -1,7 +1,8 @@
-import { pgTable, text, varchar, integer, decimal, timestamp, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, decimal, timestamp, boolean, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { sql } from "drizzle-orm";
+import { parseSingaporeDateTime } from "./sg-time";
 
 // Canteens
 export const canteens = pgTable("canteens", {
@@ -15,6 +16,60 @@ export const insertCanteenSchema = createInsertSchema(canteens).omit({ id: true
 export type InsertCanteen = z.infer<typeof insertCanteenSchema>;
 export type Canteen = typeof canteens.$inferSelect;
 
+// Structured dietary tags on stalls and listings: certifications/suitability plus allergens
+export const dietaryTags = [
+  "halal", "vegetarian", "vegan",
+  "contains_nuts", "contains_shellfish", "contains_dairy", "contains_gluten",
+] as const;
+export type DietaryTag = typeof dietaryTags[number];
+
+// What a diner can require (user preferences, ?diet= filters); see server/services/dietary.ts
+export const dietaryRestrictions = [
+  "halal", "vegetarian", "vegan",
+  "nut_free", "shellfish_free", "dairy_free", "gluten_free",
+] as const;
+export type DietaryRestriction = typeof dietaryRestrictions[number];
+
+export const dietaryTagLabels: Record<DietaryTag, string> = {
+  halal: "Halal-certified",
+  vegetarian: "Vegetarian",
+  vegan: "Vegan",
+  contains_nuts: "Contains nuts",
+  contains_shellfish: "Contains shellfish",
+  contains_dairy: "Contains dairy",
+  contains_gluten: "Contains gluten",
+};
+
+export const dietaryRestrictionLabels: Record<DietaryRestriction, string> = {
+  halal: "Halal",
+  vegetarian: "Vegetarian",
+  vegan: "Vegan",
+  nut_free: "Nut-free",
+  shellfish_free: "Shellfish-free",
+  dairy_free: "Dairy-free",
+  gluten_free: "Gluten-free",
+};
+
+const dietaryTagsSchema = z.array(z.enum(dietaryTags));
+
+// Food categories drive the weight and emission factors used for impact reporting
+export const foodCategories = [
+  "bakery", "rice_dishes", "noodles", "dim_sum", "salads", "meat", "seafood", "desserts", "other",
+] as const;
+export type FoodCategory = typeof foodCategories[number];
+
+export const foodCategoryLabels: Record<FoodCategory, string> = {
+  bakery: "Bakery",
+  rice_dishes: "Rice dishes",
+  noodles: "Noodles",
+  dim_sum: "Dim sum",
+  salads: "Salads",
+  meat: "Meat",
+  seafood: "Seafood",
+  desserts: "Desserts",
+  other: "Other",
+};
+
 // Stalls
 export const stalls = pgTable("stalls", {
   id: varchar("id", { length: 255 }).primaryKey(),
@@ -25,12 +80,96 @@ export const stalls = pgTable("stalls", {
   estimatedWaitTime: integer("estimated_wait_time").notNull().default(0), // in minutes
   rating: decimal("rating", { precision: 3, scale: 2 }).default("0"),
   reviewCount: integer("review_count").notNull().default(0),
+  dietaryTags: text("dietary_tags").array().$type<DietaryTag[]>().notNull().default(sql`'{}'::text[]`),
+  // Learned from how fast the queue drains; estimatedWaitTime = currentQueue x this
+  serviceMinutesPerPerson: decimal("service_minutes_per_person", { precision: 5, scale: 2 }).notNull().default("2.50"),
+  serviceRateSamples: integer("service_rate_samples").notNull().default(0), // People seen served behind the current rate
+  serviceRateUpdatedAt: timestamp("service_rate_updated_at"),
 });
 
-export const insertStallSchema = createInsertSchema(stalls).omit({ id: true, rating: true, reviewCount: true });
+export const insertStallSchema = createInsertSchema(stalls, {
+  dietaryTags: dietaryTagsSchema.default([]),
+}).omit({ id: true, rating: true, reviewCount: true, serviceRateSamples: true, serviceRateUpdatedAt: true });
 export type InsertStall = z.infer<typeof insertStallSchema>;
 export type Stall = typeof stalls.$inferSelect;
 
+export const updateStallDietaryTagsSchema = z.object({
+  dietaryTags: dietaryTagsSchema,
+});
+
+// Queue history: every queue change as a sample, plus rollups per 5 minutes, hour and
+// Singapore day. Rollups keep sums so averages stay exact as samples arrive.
+export const queueHistoryResolutions = ["raw", "5m", "1h", "1d"] as const;
+export type QueueHistoryResolution = typeof queueHistoryResolutions[number];
+export type QueueRollupResolution = Exclude<QueueHistoryResolution, "raw">;
+
+export const queueSamples = pgTable("queue_samples", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  stallId: varchar("stall_id", { length: 255 }).notNull(),
+  currentQueue: integer("current_queue").notNull(),
+  estimatedWaitTime: integer("estimated_wait_time").notNull(),
+  recordedAt: timestamp("recorded_at").notNull().defaultNow(),
+});
+
+export type QueueSample = typeof queueSamples.$inferSelect;
+
+export const queueRollups = pgTable("queue_rollups", {
+  id: varchar("id", { length: 255 }).primaryKey(), // "<stallId>:<resolution>:<bucketStart ISO>"
+  stallId: varchar("stall_id", { length: 255 }).notNull(),
+  resolution: text("resolution").$type<QueueRollupResolution>().notNull(),
+  bucketStart: timestamp("bucket_start").notNull(),
+  samples: integer("samples").notNull(),
+  queueSum: integer("queue_sum").notNull(),
+  waitSum: integer("wait_sum").notNull(),
+  maxQueue: integer("max_queue").notNull(),
+  maxWait: integer("max_wait").notNull(),
+});
+
+export type QueueRollup = typeof queueRollups.$inferSelect;
+
+// Virtual take-a-number queue. Numbers restart each Singapore day; the operator calls
+// tickets in order and closes each as "served" or "skipped" (a no-show). Tickets still
+// open when their day ends expire. Open tickets make up the stall's currentQueue.
+export const queueTicketStatuses = ["waiting", "called", "served", "skipped", "cancelled", "expired"] as const;
+export type QueueTicketStatus = typeof queueTicketStatuses[number];
+export type QueueTicketOutcome = Extract<QueueTicketStatus, "served" | "skipped">;
+
+export const queueTickets = pgTable("queue_tickets", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  stallId: varchar("stall_id", { length: 255 }).notNull(),
+  userId: varchar("user_id", { length: 255 }).notNull(),
+  serviceDate: varchar("service_date", { length: 10 }).notNull(), // Singapore "YYYY-MM-DD" the number belongs to
+  number: integer("number").notNull(),
+  status: text("status").$type<QueueTicketStatus>().notNull().default("waiting"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  calledAt: timestamp("called_at"),
+  closedAt: timestamp("closed_at"), // Served, skipped, cancelled or expired
+});
+
+export type QueueTicket = typeof queueTickets.$inferSelect;
+
+// Last number issued per stall and Singapore day; bumped atomically so concurrent
+// customers never get the same number
+export const queueTicketCounters = pgTable("queue_ticket_counters", {
+  id: varchar("id", { length: 255 }).primaryKey(), // "<stallId>:<serviceDate>"
+  stallId: varchar("stall_id", { length: 255 }).notNull(),
+  serviceDate: varchar("service_date", { length: 10 }).notNull(),
+  lastNumber: integer("last_number").notNull(),
+});
+
+// POST /api/stalls/:id/tickets/advance: how the ticket being served ends
+export const advanceQueueSchema = z.object({
+  outcome: z.enum(["served", "skipped"]).default("served"),
+});
+
+// Dynamic pricing: from `minutesBeforeClose` before the pickup window ends, a listing
+// sells at `discountPercent` off its original price (the deepest applicable step wins)
+export const pricingStepSchema = z.object({
+  minutesBeforeClose: z.number().int().min(1).max(24 * 60),
+  discountPercent: z.number().min(0).max(95),
+});
+export type PricingStep = z.infer<typeof pricingStepSchema>;
+
 // Food Rescue Listings
 export const foodListings = pgTable("food_listings", {
   id: varchar("id", { length: 255 }).primaryKey(),
@@ -40,41 +179,183 @@ export const foodListings = pgTable("food_listings", {
   originalPrice: decimal("original_price", { precision: 10, scale: 2 }).notNull(),
   discountedPrice: decimal("discounted_price", { precision: 10, scale: 2 }).notNull(),
   quantity: integer("quantity").notNull(),
-  pickupTimeStart: text("pickup_time_start").notNull(),
-  pickupTimeEnd: text("pickup_time_end").notNull(),
+  pickupTimeStart: timestamp("pickup_time_start").notNull(),
+  pickupTimeEnd: timestamp("pickup_time_end").notNull(), // Listing expires and unclaimed pickups become no-shows after this
   imageUrl: text("image_url").notNull(),
+  pricingCurve: jsonb("pricing_curve").$type<PricingStep[]>(), // Optional; discountedPrice applies until the first step
+  dietaryTags: text("dietary_tags").array().$type<DietaryTag[]>().notNull().default(sql`'{}'::text[]`),
+  category: text("category").$type<FoodCategory>().notNull().default("other"),
+  charityOptIn: boolean("charity_opt_in").notNull().default(false), // Charities may bulk-claim what's left near expiry
+  charityUnitPrice: decimal("charity_unit_price", { precision: 10, scale: 2 }).notNull().default("0"), // Per portion for charity claims
   available: boolean("available").notNull().default(true),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
-export const insertFoodListingSchema = createInsertSchema(foodListings).omit({ 
+// Charity claims are free or nominal: at most this much per portion
+export const MAX_CHARITY_UNIT_PRICE = 2;
+
+// Accepts "17:00" (today, Singapore time), zone-less "YYYY-MM-DDTHH:mm" (Singapore time) or ISO timestamps
+const pickupTimeSchema = z.preprocess(parseSingaporeDateTime, z.date());
+
+export const insertFoodListingSchema = createInsertSchema(foodListings, {
+  pickupTimeStart: pickupTimeSchema,
+  pickupTimeEnd: pickupTimeSchema,
+  pricingCurve: z.array(pricingStepSchema).max(5).nullable().optional(),
+  dietaryTags: dietaryTagsSchema.default([]),
+  category: z.enum(foodCategories).default("other"),
+  charityUnitPrice: z.coerce.number()
+    .min(0)
+    .max(MAX_CHARITY_UNIT_PRICE, `Charity price can be at most $${MAX_CHARITY_UNIT_PRICE.toFixed(2)} a portion`)
+    .transform(price => price.toFixed(2))
+    .optional(),
+}).omit({ 
   id: true, 
   available: true, 
   createdAt: true 
 });
 export type InsertFoodListing = z.infer<typeof insertFoodListingSchema>;
+
+// Vendors may edit everything except which vendor owns the listing
+export const updateFoodListingSchema = insertFoodListingSchema.omit({ vendorId: true }).partial();
+export type UpdateFoodListing = z.infer<typeof updateFoodListingSchema>;
 export type FoodListing = typeof foodListings.$inferSelect;
 
+// Recurring listing templates: published automatically on the chosen days
+export const weekdayLabels = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"] as const;
+
+// "HH:mm", 24-hour
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Times must be HH:mm");
+
+export const listingTemplates = pgTable("listing_templates", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  vendorId: varchar("vendor_id", { length: 255 }).notNull(),
+  title: text("title").notNull(),
+  description: text("description").notNull(),
+  category: text("category").$type<FoodCategory>().notNull().default("other"),
+  originalPrice: decimal("original_price", { precision: 10, scale: 2 }).notNull(),
+  discountedPrice: decimal("discounted_price", { precision: 10, scale: 2 }).notNull(),
+  defaultQuantity: integer("default_quantity").notNull(),
+  imageUrl: text("image_url").notNull(),
+  pricingCurve: jsonb("pricing_curve").$type<PricingStep[]>(),
+  dietaryTags: text("dietary_tags").array().$type<DietaryTag[]>().notNull().default(sql`'{}'::text[]`),
+  daysOfWeek: integer("days_of_week").array().$type<number[]>().notNull(), // 0 = Sunday, Singapore time
+  pickupStart: text("pickup_start").notNull(), // "HH:mm" Singapore time
+  pickupEnd: text("pickup_end").notNull(),
+  publishLeadMinutes: integer("publish_lead_minutes").notNull().default(120), // How long before pickup the listing goes live
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertListingTemplateSchema = createInsertSchema(listingTemplates, {
+  category: z.enum(foodCategories).default("other"),
+  defaultQuantity: z.number().int().min(1).max(1000),
+  pricingCurve: z.array(pricingStepSchema).max(5).nullable().optional(),
+  dietaryTags: dietaryTagsSchema.default([]),
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).min(1, "Pick at least one day"),
+  pickupStart: timeOfDaySchema,
+  pickupEnd: timeOfDaySchema,
+  publishLeadMinutes: z.number().int().min(0).max(24 * 60).default(120),
+}).omit({
+  id: true,
+  createdAt: true
+});
+export type InsertListingTemplate = z.infer<typeof insertListingTemplateSchema>;
+export const updateListingTemplateSchema = insertListingTemplateSchema.omit({ vendorId: true }).partial();
+export type UpdateListingTemplate = z.infer<typeof updateListingTemplateSchema>;
+export type ListingTemplate = typeof listingTemplates.$inferSelect;
+
+// Per-date adjustments and the publication record for a template. id is "<templateId>:<YYYY-MM-DD>"
+export const listingTemplateDays = pgTable("listing_template_days", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  templateId: varchar("template_id", { length: 255 }).notNull(),
+  date: varchar("date", { length: 10 }).notNull(), // Singapore date
+  quantity: integer("quantity"), // Overrides defaultQuantity for this date
+  skipped: boolean("skipped").notNull().default(false),
+  listingId: varchar("listing_id", { length: 255 }), // Set once published
+});
+
+export const updateListingTemplateDaySchema = z.object({
+  quantity: z.number().int().min(1).max(1000).nullable().optional(),
+  skipped: z.boolean().optional(),
+});
+export type UpdateListingTemplateDay = z.infer<typeof updateListingTemplateDaySchema>;
+export type ListingTemplateDay = typeof listingTemplateDays.$inferSelect;
+
+// Weekly opening hours (Singapore time): one entry per open period, so a day can have
+// several (e.g. lunch and dinner service). "24:00" closes at the end of the day.
+const closingTimeSchema = z.string().regex(/^(([01]\d|2[0-3]):[0-5]\d|24:00)$/, "Times must be HH:mm");
+
+export const openingPeriodSchema = z.object({
+  day: z.number().int().min(0).max(6), // 0 = Sunday
+  open: timeOfDaySchema,
+  close: closingTimeSchema,
+}).refine(period => period.close > period.open, { message: "Closing time must be after opening time" });
+export type OpeningPeriod = z.infer<typeof openingPeriodSchema>;
+
+export const weeklyHoursSchema = z.array(openingPeriodSchema).max(28);
+
+export const updateWeeklyHoursSchema = z.object({
+  weeklyHours: weeklyHoursSchema,
+});
+
 // Vendors
 export const vendors = pgTable("vendors", {
   id: varchar("id", { length: 255 }).primaryKey(),
   name: text("name").notNull(),
   type: text("type").notNull(), // bakery, restaurant, cafe, hawker
   address: text("address").notNull(),
-  operatingHours: text("operating_hours").notNull(),
+  weeklyHours: jsonb("weekly_hours").$type<OpeningPeriod[]>().notNull().default(sql`'[]'::jsonb`), // Empty = hours not set
   rating: decimal("rating", { precision: 3, scale: 2 }).default("0"),
   reviewCount: integer("review_count").notNull().default(0),
   imageUrl: text("image_url"),
+  latitude: decimal("latitude", { precision: 10, scale: 7 }),
+  longitude: decimal("longitude", { precision: 10, scale: 7 }),
 });
 
-export const insertVendorSchema = createInsertSchema(vendors).omit({ 
+export const insertVendorSchema = createInsertSchema(vendors, {
+  weeklyHours: weeklyHoursSchema.default([]),
+}).omit({ 
   id: true, 
   rating: true, 
   reviewCount: true 
 });
 export type InsertVendor = z.infer<typeof insertVendorSchema>;
+export const updateVendorSchema = insertVendorSchema.partial();
+export type UpdateVendor = z.infer<typeof updateVendorSchema>;
+
+// Coordinates used for distance search; null clears them
+export const updateVendorLocationSchema = z.object({
+  latitude: z.coerce.number().min(-90).max(90).nullable(),
+  longitude: z.coerce.number().min(-180).max(180).nullable(),
+}).refine(
+  location => (location.latitude === null) === (location.longitude === null),
+  { message: "Set both latitude and longitude, or clear both" },
+);
 export type Vendor = typeof vendors.$inferSelect;
 
+// Dates when a vendor's weekly hours don't apply: closed (public holidays, closures) or special hours
+export const vendorHoursExceptions = pgTable("vendor_hours_exceptions", {
+  id: varchar("id", { length: 255 }).primaryKey(), // "<vendorId>:<date>"
+  vendorId: varchar("vendor_id", { length: 255 }).notNull(),
+  date: varchar("date", { length: 10 }).notNull(), // Singapore date, "YYYY-MM-DD"
+  closed: boolean("closed").notNull().default(true),
+  open: varchar("open", { length: 5 }), // Special hours when not closed
+  close: varchar("close", { length: 5 }),
+  note: text("note"), // e.g. "Deepavali"
+});
+
+export const vendorHoursExceptionSchema = z.object({
+  closed: z.boolean(),
+  open: timeOfDaySchema.optional(),
+  close: closingTimeSchema.optional(),
+  note: z.string().trim().max(100).optional(),
+}).refine(
+  exception => exception.closed || (!!exception.open && !!exception.close && exception.close > exception.open),
+  { message: "Special hours need an opening time and a later closing time" },
+);
+export type VendorHoursExceptionInput = z.infer<typeof vendorHoursExceptionSchema>;
+export type VendorHoursException = typeof vendorHoursExceptions.$inferSelect;
+
 // Ratings (for both stalls and vendors)
 export const ratings = pgTable("ratings", {
   id: varchar("id", { length: 255 }).primaryKey(),
@@ -92,6 +373,11 @@ export const insertRatingSchema = createInsertSchema(ratings).omit({
 export type InsertRating = z.infer<typeof insertRatingSchema>;
 export type Rating = typeof ratings.$inferSelect;
 
+// User roles (admins pass every role check)
+// "charity" marks a verified charity/NGO account; only admins can grant it
+export const userRoles = ["customer", "vendor", "courier", "admin", "charity"] as const;
+export type UserRole = typeof userRoles[number];
+
 // Users (for authentication and profiles)
 export const users = pgTable("users", {
   id: varchar("id", { length: 255 }).primaryKey(),
@@ -99,6 +385,9 @@ export const users = pgTable("users", {
   email: text("email").notNull().unique(),
   passwordHash: text("password_hash").notNull(),
   fullName: text("full_name").notNull(),
+  role: text("role").notNull().default("customer"), // customer, vendor, courier, admin
+  vendorId: varchar("vendor_id", { length: 255 }), // Vendor staff: the business they manage
+  stallId: varchar("stall_id", { length: 255 }), // Stall staff: the stall whose queue they run
   phoneNumber: text("phone_number"),
   currentBlockId: varchar("current_block_id", { length: 255 }), // Current campus location
   isDeliveryPerson: boolean("is_delivery_person").notNull().default(false),
@@ -117,12 +406,36 @@ export const insertUserSchema = createInsertSchema(users).omit({
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+// Sign-up payload (plain password is hashed server-side into passwordHash)
+export const registerUserSchema = z.object({
+  username: z.string().trim().min(3).max(50).regex(/^[a-zA-Z0-9_.-]+$/),
+  email: z.string().trim().email(),
+  password: z.string().min(8).max(128),
+  fullName: z.string().trim().min(1).max(100),
+});
+export type RegisterUser = z.infer<typeof registerUserSchema>;
+
+export const updateUserRoleSchema = z.object({
+  role: z.enum(userRoles),
+});
+
+export const linkUserVendorSchema = z.object({
+  vendorId: z.string().min(1).nullable(),
+});
+
+export const linkUserStallSchema = z.object({
+  stallId: z.string().min(1).nullable(),
+});
+
+// User as exposed to clients and views (never includes the password hash)
+export type PublicUser = Omit<User, "passwordHash">;
+
 // User Food Preferences
 export const userPreferences = pgTable("user_preferences", {
   id: varchar("id", { length: 255 }).primaryKey(),
   userId: varchar("user_id", { length: 255 }).notNull(),
   cuisineTypes: text("cuisine_types").array(), // ['Chinese', 'Western', 'Indian']
-  dietaryRestrictions: text("dietary_restrictions").array(), // ['vegetarian', 'halal', 'no-pork']
+  dietaryRestrictions: text("dietary_restrictions").array(), // Hard filters, from dietaryRestrictions: ['halal', 'nut_free']
   spiceLevel: text("spice_level"), // 'none', 'mild', 'medium', 'hot'
   priceRange: text("price_range"), // 'budget', 'moderate', 'premium'
   maxQueueTime: integer("max_queue_time").notNull().default(30), // Max acceptable wait in minutes
@@ -132,7 +445,9 @@ export const userPreferences = pgTable("user_preferences", {
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
-export const insertUserPreferencesSchema = createInsertSchema(userPreferences).omit({ 
+export const insertUserPreferencesSchema = createInsertSchema(userPreferences, {
+  dietaryRestrictions: z.array(z.enum(dietaryRestrictions)).nullable().optional(),
+}).omit({ 
   id: true, 
   updatedAt: true 
 });
@@ -167,6 +482,7 @@ export const deliveryRequests = pgTable("delivery_requests", {
   deliveryLocation: text("delivery_location").notNull(), // Campus block/building
   deliveryBlockId: varchar("delivery_block_id", { length: 255 }),
   status: text("status").notNull().default("pending"), // pending, accepted, picked_up, delivering, delivered, cancelled
+  paymentStatus: text("payment_status").$type<PaymentStatus>().notNull().default("unpaid"),
   customerRating: integer("customer_rating"), // 1-5
   customerReview: text("customer_review"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
@@ -178,6 +494,7 @@ export const insertDeliveryRequestSchema = createInsertSchema(deliveryRequests).
   id: true,
   deliveryPersonId: true,
   status: true,
+  paymentStatus: true,
   customerRating: true,
   customerReview: true,
   createdAt: true,
@@ -227,3 +544,237 @@ export const insertVoucherSchema = createInsertSchema(vouchers).omit({
 });
 export type InsertVoucher = z.infer<typeof insertVoucherSchema>;
 export type Voucher = typeof vouchers.$inferSelect;
+
+// Food Rescue Reservations (portions claimed from a listing)
+export const reservations = pgTable("reservations", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  listingId: varchar("listing_id", { length: 255 }).notNull(),
+  userId: varchar("user_id", { length: 255 }).notNull(),
+  quantity: integer("quantity").notNull(),
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(), // Price locked in at claim time
+  totalPrice: decimal("total_price", { precision: 10, scale: 2 }).notNull(),
+  status: text("status").notNull().default("reserved"), // reserved, collected, cancelled, no_show
+  paymentStatus: text("payment_status").$type<PaymentStatus>().notNull().default("unpaid"),
+  pickupCode: varchar("pickup_code", { length: 16 }).notNull().unique(), // Shown to the customer, redeemed by the vendor
+  collectedAt: timestamp("collected_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertReservationSchema = createInsertSchema(reservations).omit({
+  id: true,
+  status: true,
+  paymentStatus: true,
+  pickupCode: true,
+  collectedAt: true,
+  createdAt: true
+});
+export type InsertReservation = z.infer<typeof insertReservationSchema>;
+export type Reservation = typeof reservations.$inferSelect;
+
+// Payments: one row per payment intent with the provider. Reservations and delivery
+// requests mirror the status of their latest payment in `paymentStatus`.
+export const paymentStatuses = ["unpaid", "pending", "paid", "failed", "refunded"] as const;
+export type PaymentStatus = typeof paymentStatuses[number];
+export const paymentMethods = ["paynow", "card"] as const;
+export type PaymentMethod = typeof paymentMethods[number];
+export const paymentSubjectTypes = ["reservation", "delivery_request"] as const;
+export type PaymentSubjectType = typeof paymentSubjectTypes[number];
+
+export const payments = pgTable("payments", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  provider: text("provider").notNull(), // e.g. "mock"
+  providerPaymentId: varchar("provider_payment_id", { length: 255 }).notNull().unique(), // The provider's intent id
+  subjectType: text("subject_type").$type<PaymentSubjectType>().notNull(),
+  subjectId: varchar("subject_id", { length: 255 }).notNull(),
+  userId: varchar("user_id", { length: 255 }).notNull(),
+  method: text("method").$type<PaymentMethod>().notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  currency: varchar("currency", { length: 3 }).notNull().default("SGD"),
+  status: text("status").$type<PaymentStatus>().notNull().default("pending"), // pending, paid, failed, refunded
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertPaymentSchema = createInsertSchema(payments, {
+  subjectType: z.enum(paymentSubjectTypes),
+  method: z.enum(paymentMethods),
+}).omit({
+  id: true,
+  status: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export type InsertPayment = z.infer<typeof insertPaymentSchema>;
+export type Payment = typeof payments.$inferSelect;
+
+// Customer request body to start paying for a reservation or delivery request
+export const createPaymentSchema = z.object({
+  subjectType: z.enum(paymentSubjectTypes),
+  subjectId: z.string().min(1),
+  method: z.enum(paymentMethods),
+});
+
+// Impact ledger: one entry per collected reservation, so totals only grow as food is actually rescued
+export const impactEntries = pgTable("impact_entries", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  reservationId: varchar("reservation_id", { length: 255 }).notNull().unique(),
+  userId: varchar("user_id", { length: 255 }).notNull(),
+  vendorId: varchar("vendor_id", { length: 255 }).notNull(),
+  listingId: varchar("listing_id", { length: 255 }).notNull(),
+  category: text("category").$type<FoodCategory>().notNull(),
+  meals: integer("meals").notNull(),
+  moneySaved: decimal("money_saved", { precision: 10, scale: 2 }).notNull(), // Off the original price
+  foodKg: decimal("food_kg", { precision: 10, scale: 2 }).notNull(),
+  co2eKg: decimal("co2e_kg", { precision: 10, scale: 2 }).notNull(), // Factors as they were when collected
+  donation: boolean("donation").notNull().default(false), // Collected by a charity through a bulk claim
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertImpactEntrySchema = createInsertSchema(impactEntries, {
+  category: z.enum(foodCategories),
+}).omit({
+  id: true,
+  createdAt: true
+});
+export type InsertImpactEntry = z.infer<typeof insertImpactEntrySchema>;
+export type ImpactEntry = typeof impactEntries.$inferSelect;
+
+// Donations: a charity's bulk claim of everything left on a listing. The claim is a
+// reservation like any other (same pickup code flow); this row records the gift.
+export const donations = pgTable("donations", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  reservationId: varchar("reservation_id", { length: 255 }).notNull().unique(),
+  listingId: varchar("listing_id", { length: 255 }).notNull(),
+  vendorId: varchar("vendor_id", { length: 255 }).notNull(),
+  charityUserId: varchar("charity_user_id", { length: 255 }).notNull(),
+  quantity: integer("quantity").notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // What the charity pays
+  retailValue: decimal("retail_value", { precision: 10, scale: 2 }).notNull(), // At the original price
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type Donation = typeof donations.$inferSelect;
+
+// POST /api/charity/claims
+export const charityClaimSchema = z.object({
+  listingIds: z.array(z.string().min(1)).min(1).max(50),
+});
+
+// Waitlist for sold-out listings. Portions freed by cancellations or lapsed offers are
+// held for the first waiting user ("offered") until `offerExpiresAt`, then passed on.
+export const waitlistStatuses = ["waiting", "offered", "claimed", "expired", "left"] as const;
+export type WaitlistStatus = typeof waitlistStatuses[number];
+
+export const waitlistEntries = pgTable("waitlist_entries", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  listingId: varchar("listing_id", { length: 255 }).notNull(),
+  userId: varchar("user_id", { length: 255 }).notNull(),
+  quantity: integer("quantity").notNull(), // Portions wanted
+  status: text("status").$type<WaitlistStatus>().notNull().default("waiting"),
+  offeredQuantity: integer("offered_quantity").notNull().default(0), // Portions offered; held for the user while "offered"
+  offerExpiresAt: timestamp("offer_expires_at"),
+  reservationId: varchar("reservation_id", { length: 255 }), // Set once the offer is claimed
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type WaitlistEntry = typeof waitlistEntries.$inferSelect;
+
+// POST /api/food-listings/:id/waitlist
+export const joinWaitlistSchema = z.object({
+  quantity: z.coerce.number().int().min(1).max(50).default(1),
+});
+
+// Admin-tuned overrides of the default factors in server/services/impact.ts
+export const foodCategoryFactors = pgTable("food_category_factors", {
+  category: text("category").$type<FoodCategory>().primaryKey(),
+  kgPerPortion: decimal("kg_per_portion", { precision: 6, scale: 3 }).notNull(),
+  co2eKgPerKg: decimal("co2e_kg_per_kg", { precision: 6, scale: 2 }).notNull(), // Emissions avoided per kg not wasted
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const updateFoodCategoryFactorSchema = z.object({
+  kgPerPortion: z.coerce.number().positive().max(10),
+  co2eKgPerKg: z.coerce.number().min(0).max(100),
+});
+export type FoodCategoryFactor = typeof foodCategoryFactors.$inferSelect;
+
+// Query params for GET /api/food-listings and the /food-rescue page
+export const foodListingSortOptions = ["newest", "price_asc", "price_desc", "discount", "ending_soon", "distance"] as const;
+export type FoodListingSort = typeof foodListingSortOptions[number];
+
+// HTML forms submit blank fields as "", which should mean "no filter"
+const dropEmptyParams = (value: unknown) =>
+  value && typeof value === "object"
+    ? Object.fromEntries(Object.entries(value).filter(([, v]) => v !== "" && v !== undefined))
+    : value;
+
+// Accepts "halal,nut_free" or a repeated ?diet= param
+export const dietListSchema = z.preprocess(
+  value => (Array.isArray(value) ? value : [value]).flatMap(v => String(v).split(",")).map(v => v.trim()).filter(Boolean),
+  z.array(z.enum(dietaryRestrictions)),
+);
+
+export const foodListingSearchSchema = z.preprocess(dropEmptyParams, z.object({
+  q: z.string().trim().max(100).optional(), // Matches title, description and vendor name
+  vendorType: z.string().trim().optional(),
+  maxPrice: z.coerce.number().min(0).optional(), // Against the current dynamic price
+  minDiscount: z.coerce.number().min(0).max(100).optional(), // Percent off the original price
+  pickupFrom: z.preprocess(parseSingaporeDateTime, z.date()).optional(), // Pickup window must overlap [pickupFrom, pickupTo]
+  pickupTo: z.preprocess(parseSingaporeDateTime, z.date()).optional(),
+  diet: dietListSchema.optional(), // Restrictions every listing must satisfy, e.g. "halal,nut_free"
+  blockId: z.string().optional(), // Campus block to measure distance from
+  maxDistance: z.coerce.number().positive().optional(), // Metres
+  available: z.enum(["true", "false"]).transform(v => v === "true").optional(),
+  openNow: z.enum(["true", "false"]).transform(v => v === "true").optional(), // Vendor open at request time
+  openAt: z.preprocess(parseSingaporeDateTime, z.date()).optional(), // Vendor open at this time
+  sort: z.enum(foodListingSortOptions).default("newest"),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+}).refine(
+  params => !!params.blockId || (params.sort !== "distance" && params.maxDistance === undefined),
+  { message: "blockId is required to filter or sort by distance" },
+));
+export type FoodListingSearch = z.infer<typeof foodListingSearchSchema>;
+
+// Query params for GET /api/vendors
+export const vendorSearchSchema = z.preprocess(dropEmptyParams, z.object({
+  type: z.string().trim().optional(),
+  openNow: z.enum(["true", "false"]).transform(v => v === "true").optional(),
+  openAt: z.preprocess(parseSingaporeDateTime, z.date()).optional(),
+}));
+export type VendorSearch = z.infer<typeof vendorSearchSchema>;
+
+// Query params for GET /api/vendors/:id/analytics: an inclusive range of Singapore dates
+const sgDateParamSchema = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD")
+  .refine(date => !isNaN(new Date(date).getTime()), "Dates must be YYYY-MM-DD");
+
+export const vendorAnalyticsQuerySchema = z.preprocess(dropEmptyParams, z.object({
+  from: sgDateParamSchema.optional(), // Defaults to 29 days before `to`
+  to: sgDateParamSchema.optional(), // Defaults to today
+}).refine(
+  params => !params.from || !params.to || params.from <= params.to,
+  { message: "from must be on or before to" },
+));
+export type VendorAnalyticsQuery = z.infer<typeof vendorAnalyticsQuerySchema>;
+
+// Query params for GET /api/stalls/:id/queue-history
+export const queueHistoryQuerySchema = z.preprocess(dropEmptyParams, z.object({
+  from: z.preprocess(parseSingaporeDateTime, z.date()).optional(), // Defaults to the start of today (Singapore)
+  to: z.preprocess(parseSingaporeDateTime, z.date()).optional(), // Defaults to now
+  resolution: z.enum(queueHistoryResolutions).default("5m"),
+}).refine(
+  params => !params.from || !params.to || params.from <= params.to,
+  { message: "from must be on or before to" },
+));
+export type QueueHistoryQuery = z.infer<typeof queueHistoryQuerySchema>;
+
+// Reserve request body
+export const createReservationSchema = z.object({
+  quantity: z.coerce.number().int().min(1).max(50),
+});
+
+// Vendor redeem request body: the short pickup code or the scanned QR payload
+export const redeemPickupSchema = z.object({
+  code: z.string().trim().min(1).max(255),
+});
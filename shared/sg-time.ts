@@ -0,0 +1,72 @@
+// Singapore does not observe DST, so wall-clock time is always UTC+8
+export const SG_UTC_OFFSET_MS = 8 * 60 * 60 * 1000;
+
+const TIME_ONLY = /^(\d{1,2}):(\d{2})$/;
+const DATETIME_NO_ZONE = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/;
+
+/**
+ * Today's date in Singapore as "YYYY-MM-DD"
+ */
+export function singaporeDateString(now: Date = new Date()): string {
+  return new Date(now.getTime() + SG_UTC_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Interpret pickup-time input as an instant:
+ * - "17:00" is that time today in Singapore
+ * - "2025-11-20T17:00" or "2025-11-20 17:00" (no zone, e.g. from <input type="datetime-local"> or a CSV) is Singapore wall-clock time
+ * - anything with a zone or a Date is taken as-is
+ * Unparseable values are passed through so zod reports them.
+ */
+export function parseSingaporeDateTime(value: unknown): unknown {
+  if (value instanceof Date) return value;
+  if (typeof value !== "string") return value;
+
+  const trimmed = value.trim();
+  const time = TIME_ONLY.exec(trimmed);
+  if (time) {
+    const hh = time[1].padStart(2, "0");
+    return new Date(`${singaporeDateString()}T${hh}:${time[2]}:00+08:00`);
+  }
+  if (DATETIME_NO_ZONE.test(trimmed)) {
+    return new Date(`${trimmed.replace(" ", "T")}+08:00`);
+  }
+
+  const parsed = new Date(trimmed);
+  return isNaN(parsed.getTime()) ? value : parsed;
+}
+
+/**
+ * "HH:mm" in Singapore time
+ */
+export function formatSingaporeTime(date: Date | string): string {
+  return new Date(new Date(date).getTime() + SG_UTC_OFFSET_MS).toISOString().slice(11, 16);
+}
+
+/**
+ * "YYYY-MM-DD HH:mm" in Singapore time
+ */
+export function formatSingaporeDateTime(date: Date | string): string {
+  return new Date(new Date(date).getTime() + SG_UTC_OFFSET_MS).toISOString().slice(0, 16).replace("T", " ");
+}
+
+/**
+ * The instant a Singapore date ("YYYY-MM-DD") and wall-clock time ("HH:mm") refer to
+ */
+export function singaporeDateTimeAt(date: string, time: string): Date {
+  return new Date(`${date}T${time}:00+08:00`);
+}
+
+/**
+ * Day of the week (0 = Sunday) of a Singapore date string
+ */
+export function singaporeWeekday(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+/**
+ * Shift a "YYYY-MM-DD" date string by whole days
+ */
+export function addDaysToDateString(date: string, days: number): string {
+  return new Date(new Date(`${date}T00:00:00Z`).getTime() + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}